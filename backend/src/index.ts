@@ -33,12 +33,14 @@ import cors from 'cors';
 import profilesRouter from './routes/profiles.js';
 import userRouter from './routes/user.js';
 import automateRouter from './routes/automate.js';
+import queueRouter from './routes/queue.js';
 import fieldsRouter from './routes/fields.js';
 import templatesRouter from './routes/templates.js';
 import googleAuthRouter from './routes/googleAuth.js';
 import exportRouter from './routes/export.js';
 import importRouter from './routes/import.js';
 import logsRouter from './routes/logs.js';
+import applicationsRouter from './routes/applications.js';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -70,6 +72,7 @@ app.use(express.json({ limit: '50mb' }));
 // Routes
 app.use('/api/profiles', profilesRouter);
 app.use('/api/user', userRouter);
+app.use('/api/automate/queue', queueRouter);
 app.use('/api/automate', automateRouter);
 app.use('/api/fields', fieldsRouter);
 app.use('/api/templates', templatesRouter);
@@ -77,6 +80,10 @@ app.use('/api/google-auth', googleAuthRouter);
 app.use('/api/export', exportRouter);
 app.use('/api/import', importRouter);
 app.use('/api/logs', logsRouter);
+app.use('/api/applications', applicationsRouter);
+
+// Manual mode overlay loaded by the bookmarklet, built with `npm run build:overlay` in frontend/
+app.use('/overlay', express.static(path.join(__dirname, '../../frontend/dist-overlay')));
 
 // Health check
 app.get('/api/health', (req, res) => {
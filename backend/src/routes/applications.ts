@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageService } from '../services/storageService.js';
+import { APPLICATION_STAGES } from '../../../shared/types.js';
+import type { Application } from '../../../shared/types.js';
+
+const router = Router();
+
+// Get all applications, most recently applied first
+router.get('/', async (req, res) => {
+  try {
+    const applications: Application[] = await StorageService.getAllApplications();
+    applications.sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+    res.json(applications);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get single application
+router.get('/:id', async (req, res) => {
+  try {
+    const application = await StorageService.getApplication(req.params.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+    res.json(application);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create application
+router.post('/', async (req, res) => {
+  try {
+    const data = req.body as Partial<Application>;
+    if (data.stage && !APPLICATION_STAGES.includes(data.stage)) {
+      return res.status(400).json({ error: `Stage must be one of ${APPLICATION_STAGES.join(', ')}` });
+    }
+    const now = new Date().toISOString();
+    const application: Application = {
+      id: uuidv4(),
+      company: data.company || 'Unknown company',
+      role: data.role || 'Unknown role',
+      url: data.url,
+      profileId: data.profileId,
+      resumeVersion: data.resumeVersion,
+      sessionId: data.sessionId,
+      appliedAt: data.appliedAt || now,
+      stage: data.stage || 'applied',
+      notes: data.notes,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const saved = await StorageService.saveApplication(application);
+    res.status(201).json(saved);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update application (e.g. move it to another stage)
+router.put('/:id', async (req, res) => {
+  try {
+    const existing = await StorageService.getApplication(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+    if (req.body.stage && !APPLICATION_STAGES.includes(req.body.stage)) {
+      return res.status(400).json({ error: `Stage must be one of ${APPLICATION_STAGES.join(', ')}` });
+    }
+    const updated: Application = {
+      ...existing,
+      ...req.body,
+      id: req.params.id,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await StorageService.saveApplication(updated);
+    res.json(saved);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete application
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await StorageService.deleteApplication(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
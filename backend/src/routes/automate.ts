@@ -1,11 +1,20 @@
 import { Router } from 'express';
-import { automationService } from '../services/automationService.js';
+import fs from 'fs-extra';
+import { automationService, SessionStateError } from '../services/automationService.js';
+import { StorageService } from '../services/storageService.js';
+import { INTERACTION_PROFILES, SUBMIT_POLICIES } from '../../../shared/types.js';
 
 const router = Router();
 
 // Start automation
 router.post('/start', async (req, res) => {
   try {
+    if (req.body.submitPolicy && !SUBMIT_POLICIES.includes(req.body.submitPolicy)) {
+      return res.status(400).json({ error: `Submit policy must be one of ${SUBMIT_POLICIES.join(', ')}` });
+    }
+    if (req.body.interactionProfile && !INTERACTION_PROFILES.includes(req.body.interactionProfile)) {
+      return res.status(400).json({ error: `Interaction profile must be one of ${INTERACTION_PROFILES.join(', ')}` });
+    }
     const session = await automationService.startSession(req.body);
     res.json(session);
   } catch (error: any) {
@@ -26,6 +35,132 @@ router.get('/status/:id', async (req, res) => {
   }
 });
 
+// Stream session updates and per-field events as Server-Sent Events
+router.get('/events/:id', async (req, res) => {
+  // Sessions from the history have nothing left to stream
+  if (!automationService.hasActiveSession(req.params.id)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const unsubscribe = automationService.subscribe(req.params.id, (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  });
+  req.on('close', () => unsubscribe?.());
+});
+
+// List the application history, newest first
+router.get('/sessions', async (req, res) => {
+  try {
+    const sessions = await automationService.listSessions();
+    res.json(sessions);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get a session from the history with its field timeline
+router.get('/sessions/:id', async (req, res) => {
+  try {
+    const session = await automationService.getSessionRecord(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(session);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Screenshot or sanitized HTML captured during a session
+router.get('/sessions/:id/snapshots/:snapshotId/:kind', async (req, res) => {
+  try {
+    const { id, snapshotId, kind } = req.params;
+    if (kind !== 'screenshot' && kind !== 'html') {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    const filePath = StorageService.getSnapshotPath(id, snapshotId, kind === 'screenshot' ? 'png' : 'html');
+    if (!(await fs.pathExists(filePath))) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    if (kind === 'html') {
+      // Scripts are stripped when capturing; the sandbox keeps anything missed from running
+      res.setHeader('Content-Security-Policy', 'sandbox');
+    }
+    res.sendFile(filePath);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get fields awaiting user input on a paused session
+router.get('/:id/pending-fields', async (req, res) => {
+  try {
+    const fields = await automationService.getPendingFields(req.params.id);
+    if (!fields) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(fields);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Answer a pending field; the session resumes once all are answered
+router.post('/:id/pending-fields', async (req, res) => {
+  try {
+    if (typeof req.body?.selector !== 'string') {
+      return res.status(400).json({ error: 'selector is required' });
+    }
+    const remaining = await automationService.answerPendingField(req.params.id, req.body);
+    res.json(remaining);
+  } catch (error: any) {
+    res.status(error instanceof SessionStateError ? 409 : 500).json({ error: error.message });
+  }
+});
+
+// Get the field plan of a dry run
+router.get('/:id/plan', async (req, res) => {
+  try {
+    const plan = await automationService.getPlan(req.params.id);
+    if (!plan) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    res.json(plan);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Fill a reviewed dry-run plan, with optional per-field overrides
+router.post('/:id/plan/apply', async (req, res) => {
+  try {
+    const { overrides } = req.body;
+    if (overrides !== undefined && (!Array.isArray(overrides) || overrides.some((o: any) => typeof o?.selector !== 'string'))) {
+      return res.status(400).json({ error: 'Overrides must be a list of { selector, ... }' });
+    }
+    const session = await automationService.applyPlan(req.params.id, overrides);
+    res.json(session);
+  } catch (error: any) {
+    res.status(error instanceof SessionStateError ? 409 : 500).json({ error: error.message });
+  }
+});
+
+// Approve or decline submitting a session paused for final review
+router.post('/:id/submit', async (req, res) => {
+  try {
+    const session = await automationService.approveSubmit(req.params.id, req.body.approve === true);
+    res.json(session);
+  } catch (error: any) {
+    res.status(error instanceof SessionStateError ? 409 : 500).json({ error: error.message });
+  }
+});
+
 // Stop automation
 router.post('/stop/:id', async (req, res) => {
   try {
@@ -24,6 +24,7 @@ router.put('/mappings/:fieldName', async (req, res) => {
       fieldName,
       fieldType: req.body.fieldType,
       confidence: req.body.confidence,
+      value: req.body.value ?? (existingIndex >= 0 ? mappings[existingIndex].value : undefined),
       learnedAt: existingIndex >= 0 ? mappings[existingIndex].learnedAt : new Date().toISOString(),
     };
     if (existingIndex >= 0) {
@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
 import { StorageService } from '../services/storageService.js';
-import type { Profile } from '../../../shared/types.js';
+import type { Profile, ProfileDocument, ProfileDocumentKind } from '../../../shared/types.js';
+
+const DOCUMENT_FIELDS: Record<ProfileDocumentKind, 'resumeFile' | 'coverLetterFile'> = {
+  resume: 'resumeFile',
+  coverLetter: 'coverLetterFile',
+};
 
 const router = Router();
 
@@ -122,6 +128,74 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// Upload a resume or cover letter file (base64 content) to attach to the profile
+router.put('/:id/documents/:kind', async (req, res) => {
+  try {
+    const field = DOCUMENT_FIELDS[req.params.kind as ProfileDocumentKind];
+    if (!field) {
+      return res.status(400).json({ error: 'Document kind must be resume or coverLetter' });
+    }
+    const { fileName, content } = req.body as { fileName?: string; content?: string };
+    if (!fileName || !content) {
+      return res.status(400).json({ error: 'fileName and content are required' });
+    }
+    const existing: Profile | null = await StorageService.getProfile(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    const previous = existing[field];
+    if (previous) {
+      await StorageService.deleteDocument(existing.id, previous.storedName);
+    }
+
+    const document: ProfileDocument = {
+      fileName,
+      storedName: `${req.params.kind}-${uuidv4()}${path.extname(fileName)}`,
+      uploadedAt: new Date().toISOString(),
+    };
+    await StorageService.saveDocument(existing.id, document.storedName, Buffer.from(content, 'base64'));
+
+    const updated: Profile = {
+      ...existing,
+      [field]: document,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await StorageService.saveProfile(updated);
+    res.json(saved);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Remove an attached resume or cover letter file
+router.delete('/:id/documents/:kind', async (req, res) => {
+  try {
+    const field = DOCUMENT_FIELDS[req.params.kind as ProfileDocumentKind];
+    if (!field) {
+      return res.status(400).json({ error: 'Document kind must be resume or coverLetter' });
+    }
+    const existing: Profile | null = await StorageService.getProfile(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+
+    const previous = existing[field];
+    if (previous) {
+      await StorageService.deleteDocument(existing.id, previous.storedName);
+    }
+    const updated: Profile = {
+      ...existing,
+      [field]: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    const saved = await StorageService.saveProfile(updated);
+    res.json(saved);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Delete profile
 router.delete('/:id', async (req, res) => {
   try {
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { QueueStateError, queueService } from '../services/queueService.js';
+import { INTERACTION_PROFILES, SUBMIT_POLICIES } from '../../../shared/types.js';
+
+const router = Router();
+
+// Get every item in the batch apply queue, in run order
+router.get('/', async (req, res) => {
+  try {
+    res.json(queueService.list());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Add postings to the queue; body is { items: [{ url, profileId }], submitPolicy?, interactionProfile? }
+router.post('/', async (req, res) => {
+  try {
+    const { items, submitPolicy, interactionProfile } = req.body;
+    if (!Array.isArray(items) || items.length === 0 || items.some((item: any) => !item?.url || !item?.profileId)) {
+      return res.status(400).json({ error: 'Items must be a non-empty list of { url, profileId }' });
+    }
+    if (submitPolicy && !SUBMIT_POLICIES.includes(submitPolicy)) {
+      return res.status(400).json({ error: `Submit policy must be one of ${SUBMIT_POLICIES.join(', ')}` });
+    }
+    if (interactionProfile && !INTERACTION_PROFILES.includes(interactionProfile)) {
+      return res.status(400).json({ error: `Interaction profile must be one of ${INTERACTION_PROFILES.join(', ')}` });
+    }
+    const added = queueService.add(
+      items.map((item: any) => ({ url: String(item.url), profileId: String(item.profileId) })),
+      submitPolicy,
+      interactionProfile
+    );
+    res.status(201).json(added);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run a failed or skipped item again
+router.post('/:id/retry', async (req, res) => {
+  try {
+    const item = queueService.retry(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: 'Queue item not found' });
+    }
+    res.json(item);
+  } catch (error: any) {
+    res.status(error instanceof QueueStateError ? 409 : 500).json({ error: error.message });
+  }
+});
+
+// Leave an item out of the batch
+router.post('/:id/skip', async (req, res) => {
+  try {
+    const item = await queueService.skip(req.params.id);
+    if (!item) {
+      return res.status(404).json({ error: 'Queue item not found' });
+    }
+    res.json(item);
+  } catch (error: any) {
+    res.status(error instanceof QueueStateError ? 409 : 500).json({ error: error.message });
+  }
+});
+
+export default router;
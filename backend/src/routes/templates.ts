@@ -3,7 +3,7 @@ import { googleDriveService } from '../services/googleDriveService.js';
 import type { ResumeTemplate } from '../../../shared/types.js';
 import { v4 as uuidv4 } from 'uuid';
 import { StorageService } from '../services/storageService.js';
-import { TemplateDataService } from '../services/templateDataService.js';
+import { ResumeService } from '../services/resumeService.js';
 
 const router = Router();
 
@@ -78,17 +78,8 @@ router.get('/:id/export', async (req, res) => {
     // Get user data
     const user = await StorageService.getUser();
     
-    // Build template data from profile and user
-    const templateData = TemplateDataService.buildTemplateData(profile, user);
-    const placeholderMap = TemplateDataService.getPlaceholderMap(templateData);
-    
-    // Build condition map for conditional blocks
-    const conditionMap = new Map<string, boolean>();
-    conditionMap.set('hideLocation', profile.hideLocation || false);
-    conditionMap.set('showLocation', !(profile.hideLocation || false));
-    
-    // Fill placeholders and export to PDF (pass profile for loop processing)
-    const pdf = await googleDriveService.fillAndExportToPDF(template.googleDriveId, placeholderMap, conditionMap, profile);
+    // Fill placeholders and export to PDF
+    const pdf = await ResumeService.buildResumePDF(template, profile, user);
     
     // Set response headers for PDF download
     res.setHeader('Content-Type', 'application/pdf');
@@ -27,6 +27,7 @@ router.get('/', async (req, res) => {
           },
         },
         education: [],
+        screeningAnswers: [],
         updatedAt: new Date().toISOString(),
       });
     }
@@ -58,6 +59,7 @@ router.put('/', async (req, res) => {
         },
       },
       education: userData.education || existing?.education || [],
+      screeningAnswers: userData.screeningAnswers || existing?.screeningAnswers || [],
       updatedAt: new Date().toISOString(),
     };
     
@@ -0,0 +1,79 @@
+import type { Page } from 'puppeteer';
+import type { FieldType, FormField } from '../../../../shared/types.js';
+import type { SiteAdapterContext } from './siteAdapter.js';
+
+export async function firstPresent(page: Page, selectors: string[]): Promise<string | undefined> {
+  for (const selector of selectors) {
+    if (await page.$(selector)) {
+      return selector;
+    }
+  }
+  return undefined;
+}
+
+// Fill a text input, or a typeahead when type is 'combobox', unless the site (or its resume parser) already filled it
+export async function fillText(
+  context: SiteAdapterContext,
+  selector: string,
+  name: string,
+  value?: string,
+  fieldType?: FieldType,
+  type: FormField['type'] = 'text'
+) {
+  const { page } = context;
+  if (!value || !(await page.$(selector))) {
+    return;
+  }
+  const current = await page.$eval(selector, (el) => (el as HTMLInputElement).value).catch(() => '');
+  if (current) {
+    return;
+  }
+  const field: FormField = { selector, name, type };
+  await context.fillField(field, value, fieldType);
+}
+
+// Upload the profile's generated resume into the first file input present
+export async function uploadResume(context: SiteAdapterContext, selectors: string[]): Promise<boolean> {
+  const selector = await firstPresent(context.page, selectors);
+  if (!selector) {
+    return false;
+  }
+
+  let filePath: string | undefined;
+  try {
+    filePath = await context.getResumeFile();
+  } catch (error: any) {
+    context.session.errors.push({
+      type: 'other',
+      message: `Could not generate resume: ${error.message}`,
+      timestamp: new Date().toISOString(),
+    });
+    return false;
+  }
+  if (!filePath) {
+    return false;
+  }
+
+  return context.uploadFile({ selector, name: 'Resume', type: 'file' }, filePath);
+}
+
+// Use the visible question text as the label of fields inside custom question blocks,
+// so the user is prompted with the actual question rather than a generated input name
+export async function labelWithQuestionText(page: Page, fields: FormField[], questionSelector: string, textSelector: string) {
+  for (const field of fields) {
+    const question = await page
+      .$eval(
+        field.selector,
+        (el, questionSel, textSel) => {
+          const text = el.closest(questionSel)?.querySelector(textSel)?.textContent;
+          return text?.replace(/\s+/g, ' ').trim() || undefined;
+        },
+        questionSelector,
+        textSelector
+      )
+      .catch(() => undefined);
+    if (question) {
+      field.label = question;
+    }
+  }
+}
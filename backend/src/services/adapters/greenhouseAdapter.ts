@@ -0,0 +1,81 @@
+import { FieldType } from '../../../../shared/types.js';
+import type { FormField, PersonalInfo } from '../../../../shared/types.js';
+import type { SiteAdapter } from './siteAdapter.js';
+import { fillText, firstPresent, labelWithQuestionText, uploadResume } from './adapterHelpers.js';
+
+const FORM = '#application_form, #application-form, form[action*="greenhouse"]';
+const RESUME_INPUTS = ['input[type="file"]#resume', '#resume_fieldset input[type="file"]', 'input[type="file"][name*="resume" i]'];
+const CUSTOM_QUESTION = '.field, [class*="question"]';
+const QUESTION_TEXT = 'label';
+
+// Old boards prefix ids with job_application_, the current ones use bare ids
+const STANDARD_FIELDS: {
+  name: string;
+  fieldType: FieldType;
+  type?: FormField['type'];
+  selectors: string[];
+  value: (info: PersonalInfo) => string | undefined;
+}[] = [
+  { name: 'First Name', fieldType: FieldType.FIRST_NAME, selectors: ['#first_name', '#job_application_first_name'], value: (info) => info.firstName },
+  { name: 'Last Name', fieldType: FieldType.LAST_NAME, selectors: ['#last_name', '#job_application_last_name'], value: (info) => info.lastName },
+  { name: 'Email', fieldType: FieldType.EMAIL, selectors: ['#email', '#job_application_email'], value: (info) => info.email },
+  { name: 'Phone', fieldType: FieldType.PHONE, selectors: ['#phone', '#job_application_phone'], value: (info) => info.phone },
+  {
+    name: 'Location',
+    fieldType: FieldType.ADDRESS_CITY,
+    // A typeahead; the typed text is only kept once one of its suggestions is picked
+    type: 'combobox',
+    selectors: ['#candidate-location', '#job_application_location'],
+    value: (info) => [info.address.city, info.address.state].filter(Boolean).join(', '),
+  },
+];
+
+export const greenhouseAdapter: SiteAdapter = {
+  name: 'Greenhouse',
+
+  async detect(page, url) {
+    if (url && /(boards|job-boards)\.greenhouse\.io/i.test(url)) {
+      return true;
+    }
+    // Boards embedded with #grnhse_app keep the form in an iframe, out of reach of the page
+    // selectors below; the generic engine fills those through frame-aware detection
+    return !!(await page.$('#application_form'));
+  },
+
+  async run(context) {
+    const { page, session, user } = context;
+    await page.waitForSelector(FORM, { timeout: 10000 }).catch(() => {});
+
+    session.currentStep = 'Greenhouse: filling application';
+    session.progress = 20;
+    context.publish();
+
+    if (user) {
+      for (const { name, fieldType, type, selectors, value } of STANDARD_FIELDS) {
+        const selector = await firstPresent(page, selectors);
+        if (selector) {
+          await fillText(context, selector, name, value(user.personalInfo), fieldType, type);
+        }
+      }
+    }
+
+    session.currentStep = 'Greenhouse: uploading resume';
+    session.progress = 40;
+    context.publish();
+    await uploadResume(context, RESUME_INPUTS);
+
+    // Everything left is a custom question; prompt with the question text
+    session.currentStep = 'Greenhouse: answering custom questions';
+    session.progress = 60;
+    context.publish();
+    const unmappedFields = await context.fillRemainingFields();
+    if (unmappedFields.length > 0) {
+      await labelWithQuestionText(page, unmappedFields, CUSTOM_QUESTION, QUESTION_TEXT);
+      await context.promptForUnmappedFields(unmappedFields);
+    }
+
+    if (session.status === 'running') {
+      session.currentStep = 'Greenhouse application ready for review';
+    }
+  },
+};
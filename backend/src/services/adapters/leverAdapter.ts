@@ -0,0 +1,83 @@
+import { FieldType } from '../../../../shared/types.js';
+import type { Profile, User } from '../../../../shared/types.js';
+import type { SiteAdapter } from './siteAdapter.js';
+import { fillText, labelWithQuestionText, uploadResume } from './adapterHelpers.js';
+
+const FORM = '#application-form, form[action*="/apply"]';
+const RESUME_INPUTS = ['#resume-upload-input', 'input[type="file"][name="resume"]'];
+const CUSTOM_QUESTION = '.application-question';
+const QUESTION_TEXT = '.application-label .text, .application-label';
+const RESUME_PARSED = '.resume-upload-success, .resume-upload-label .filename';
+
+const STANDARD_FIELDS: { name: string; fieldType: FieldType; selector: string; value: (user: User, profile: Profile) => string | undefined }[] = [
+  {
+    name: 'Full name',
+    fieldType: FieldType.FULL_NAME,
+    selector: 'input[name="name"]',
+    value: (user) => `${user.personalInfo.firstName} ${user.personalInfo.lastName}`,
+  },
+  { name: 'Email', fieldType: FieldType.EMAIL, selector: 'input[name="email"]', value: (user) => user.personalInfo.email },
+  { name: 'Phone', fieldType: FieldType.PHONE, selector: 'input[name="phone"]', value: (user) => user.personalInfo.phone },
+  {
+    name: 'Current company',
+    fieldType: FieldType.WORK_COMPANY,
+    selector: 'input[name="org"]',
+    value: (_user, profile) => profile.workExperience?.find((job) => job.current)?.company,
+  },
+  { name: 'LinkedIn URL', fieldType: FieldType.LINKEDIN, selector: 'input[name="urls[LinkedIn]"]', value: (user) => user.personalInfo.linkedIn },
+  { name: 'GitHub URL', fieldType: FieldType.PORTFOLIO, selector: 'input[name="urls[GitHub]"]', value: (user) => user.personalInfo.github },
+  {
+    name: 'Portfolio URL',
+    fieldType: FieldType.PORTFOLIO,
+    selector: 'input[name="urls[Portfolio]"]',
+    value: (user) => user.personalInfo.onlinePortfolio || user.personalInfo.portfolio,
+  },
+];
+
+export const leverAdapter: SiteAdapter = {
+  name: 'Lever',
+
+  async detect(page, url) {
+    if (url && /jobs\.lever\.co/i.test(url)) {
+      return true;
+    }
+    return !!(await page.$('#application-form input[name="urls[LinkedIn]"], .application-page #resume-upload-input'));
+  },
+
+  async run(context) {
+    const { page, session, user, profile } = context;
+    await page.waitForSelector(FORM, { timeout: 10000 }).catch(() => {});
+
+    // Lever parses the uploaded resume into the standard fields, so upload first and
+    // only fill what the parser left empty
+    session.currentStep = 'Lever: uploading resume';
+    session.progress = 20;
+    context.publish();
+    if (await uploadResume(context, RESUME_INPUTS)) {
+      await page.waitForSelector(RESUME_PARSED, { timeout: 15000 }).catch(() => {});
+    }
+
+    session.currentStep = 'Lever: filling application';
+    session.progress = 40;
+    context.publish();
+    if (user) {
+      for (const { name, fieldType, selector, value } of STANDARD_FIELDS) {
+        await fillText(context, selector, name, value(user, profile), fieldType);
+      }
+    }
+
+    // Everything left is a custom question card; prompt with the question text
+    session.currentStep = 'Lever: answering custom questions';
+    session.progress = 60;
+    context.publish();
+    const unmappedFields = await context.fillRemainingFields();
+    if (unmappedFields.length > 0) {
+      await labelWithQuestionText(page, unmappedFields, CUSTOM_QUESTION, QUESTION_TEXT);
+      await context.promptForUnmappedFields(unmappedFields);
+    }
+
+    if (session.status === 'running') {
+      session.currentStep = 'Lever application ready for review';
+    }
+  },
+};
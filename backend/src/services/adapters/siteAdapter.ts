@@ -0,0 +1,41 @@
+import type { ElementHandle, Page } from 'puppeteer';
+import type { AutomationFieldEvent, AutomationSession, FieldType, FormField, InteractionProfile, Profile, User } from '../../../../shared/types.js';
+
+// Engine services available to an adapter while it owns the page
+export interface SiteAdapterContext {
+  page: Page;
+  session: AutomationSession;
+  profile: Profile;
+  user: User | null;
+  // Fill a single field through the engine, recording timeline events; returns false on failure
+  fillField: (field: FormField, value: string, fieldType?: FieldType) => Promise<boolean>;
+  // Attach a local file to a file input, recording timeline events; returns false on failure
+  uploadFile: (field: FormField, filePath: string) => Promise<boolean>;
+  // Path of the profile's generated resume PDF, created on first use
+  getResumeFile: () => Promise<string | undefined>;
+  // Record a timeline event for a field the adapter filled with its own widget handling
+  recordFieldEvent: (
+    type: AutomationFieldEvent['type'],
+    field: FormField,
+    details?: Pick<AutomationFieldEvent, 'fieldType' | 'message'>
+  ) => void;
+  // Click through the session's interaction profile, moving the mouse onto the element first
+  click: (target: string | ElementHandle) => Promise<void>;
+  // Record a field the adapter could not fill as a session error, with a snapshot of the page
+  recordFillFailure: (field: FormField, error: Error) => Promise<void>;
+  // Detect fields on the current page and fill the still-empty ones generically; returns unmapped fields
+  fillRemainingFields: () => Promise<FormField[]>;
+  // Pause for user input on fields that neither the adapter nor the generic matcher could fill
+  promptForUnmappedFields: (fields: FormField[]) => Promise<void>;
+  // Push the session's current state to stream subscribers
+  publish: () => void;
+}
+
+// Recognises a specific applicant tracking system and takes over navigation and filling
+export interface SiteAdapter {
+  name: string;
+  // Pacing for boards known to flag fast input; a profile chosen for the session takes precedence
+  interactionProfile?: InteractionProfile;
+  detect(page: Page, url?: string): Promise<boolean>;
+  run(context: SiteAdapterContext): Promise<void>;
+}
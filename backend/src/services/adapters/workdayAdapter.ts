@@ -0,0 +1,287 @@
+import type { Page } from 'puppeteer';
+import { FieldType } from '../../../../shared/types.js';
+import type { Education, FormField, PersonalInfo, WorkExperience } from '../../../../shared/types.js';
+import { matchOption } from '../../../../shared/optionMatching.js';
+import { formatDate, parseDate } from '../../../../shared/dates.js';
+import type { SiteAdapter, SiteAdapterContext } from './siteAdapter.js';
+import { fillText, firstPresent } from './adapterHelpers.js';
+
+const MAX_STEPS = 10;
+
+const NEXT_BUTTON = '[data-automation-id="bottom-navigation-next-button"], [data-automation-id="pageFooterNextButton"]';
+const ACTIVE_STEP = '[data-automation-id="progressBarActiveStep"]';
+const WORK_SECTION = '[data-automation-id="workExperienceSection"]';
+const EDUCATION_SECTION = '[data-automation-id="educationSection"]';
+const ADD_BUTTONS = ['button[data-automation-id="Add"]', 'button[data-automation-id="Add Another"]'];
+
+// Workday renames automation ids between releases, so each field lists the known variants
+const PERSONAL_INFO_FIELDS: { name: string; fieldType: FieldType; selectors: string[]; value: (info: PersonalInfo) => string | undefined }[] = [
+  {
+    name: 'firstName',
+    fieldType: FieldType.FIRST_NAME,
+    selectors: ['[data-automation-id="legalNameSection_firstName"]', 'input[name="legalName--firstName"]'],
+    value: (info) => info.firstName,
+  },
+  {
+    name: 'lastName',
+    fieldType: FieldType.LAST_NAME,
+    selectors: ['[data-automation-id="legalNameSection_lastName"]', 'input[name="legalName--lastName"]'],
+    value: (info) => info.lastName,
+  },
+  {
+    name: 'addressLine1',
+    fieldType: FieldType.ADDRESS_STREET,
+    selectors: ['[data-automation-id="addressSection_addressLine1"]', 'input[name="addressLine1"]'],
+    value: (info) => info.address.street,
+  },
+  {
+    name: 'city',
+    fieldType: FieldType.ADDRESS_CITY,
+    selectors: ['[data-automation-id="addressSection_city"]', 'input[name="city"]'],
+    value: (info) => info.address.city,
+  },
+  {
+    name: 'postalCode',
+    fieldType: FieldType.ADDRESS_ZIP,
+    selectors: ['[data-automation-id="addressSection_postalCode"]', 'input[name="postalCode"]'],
+    value: (info) => info.address.zipCode,
+  },
+  {
+    name: 'email',
+    fieldType: FieldType.EMAIL,
+    selectors: ['[data-automation-id="email"]', 'input[name="email"]'],
+    value: (info) => info.email,
+  },
+  {
+    name: 'phoneNumber',
+    fieldType: FieldType.PHONE,
+    selectors: ['[data-automation-id="phone-number"]', 'input[name="phoneNumber"]'],
+    value: (info) => info.phone,
+  },
+];
+
+const PERSONAL_INFO_DROPDOWNS: { name: string; fieldType: FieldType; selectors: string[]; value: (info: PersonalInfo) => string | undefined }[] = [
+  {
+    name: 'country',
+    fieldType: FieldType.ADDRESS_COUNTRY,
+    selectors: ['button[data-automation-id="countryDropdown"]', 'button[name="country"]'],
+    value: (info) => info.address.country,
+  },
+  {
+    name: 'state',
+    fieldType: FieldType.ADDRESS_STATE,
+    selectors: ['button[data-automation-id="addressSection_countryRegion"]', 'button[name="countryRegion"]'],
+    value: (info) => info.address.state,
+  },
+];
+
+// Workday splits dates into MM and YYYY text boxes
+function monthYear(date?: string): { month?: string; year?: string } {
+  const parsed = parseDate(date);
+  if (!parsed) {
+    return {};
+  }
+  return { month: parsed.month ? formatDate(parsed, 'MM') : undefined, year: formatDate(parsed, 'YYYY') };
+}
+
+// Workday dropdowns are buttons that open a listbox popup rather than native <select>s
+async function chooseDropdownOption(context: SiteAdapterContext, selector: string, name: string, value?: string, fieldType?: FieldType) {
+  const { page } = context;
+  if (!value || !(await page.$(selector))) {
+    return;
+  }
+
+  const field: FormField = { selector, name, type: 'select' };
+  context.recordFieldEvent('matched', field, { fieldType });
+  try {
+    await context.click(selector);
+    await page.waitForSelector('[role="listbox"] [role="option"]', { timeout: 5000 });
+    const optionTexts = await page.$$eval('[role="listbox"] [role="option"]', (options) =>
+      options.map((o) => o.textContent?.trim() || '')
+    );
+    const chosen = matchOption(optionTexts.map((text) => ({ value: text, text })), value);
+    if (chosen) {
+      const options = await page.$$('[role="listbox"] [role="option"]');
+      await context.click(options[optionTexts.indexOf(chosen.value)]);
+      context.recordFieldEvent('filled', field, { fieldType });
+    } else {
+      await page.keyboard.press('Escape');
+      await context.recordFillFailure(field, new Error(`No option matching "${value}"`));
+    }
+  } catch (error: any) {
+    await context.recordFillFailure(field, error);
+  }
+}
+
+async function fillPersonalInfo(context: SiteAdapterContext) {
+  const info = context.user?.personalInfo;
+  if (!info) {
+    return;
+  }
+
+  for (const { name, fieldType, selectors, value } of PERSONAL_INFO_FIELDS) {
+    const selector = await firstPresent(context.page, selectors);
+    if (selector) {
+      await fillText(context, selector, name, value(info), fieldType);
+    }
+  }
+  for (const { name, fieldType, selectors, value } of PERSONAL_INFO_DROPDOWNS) {
+    const selector = await firstPresent(context.page, selectors);
+    if (selector) {
+      await chooseDropdownOption(context, selector, name, value(info), fieldType);
+    }
+  }
+}
+
+// Make sure the repeater in the section has a panel for the given (1-based) entry
+async function ensurePanel(context: SiteAdapterContext, section: string, panelPrefix: string, index: number): Promise<string | undefined> {
+  const { page } = context;
+  const panel = `${section} [data-automation-id="${panelPrefix}-${index}"]`;
+  if (!(await page.$(panel))) {
+    const addButton = await firstPresent(page, ADD_BUTTONS.map((button) => `${section} ${button}`));
+    if (!addButton) {
+      return undefined;
+    }
+    await context.click(addButton);
+    await page.waitForSelector(panel, { timeout: 5000 }).catch(() => {});
+  }
+  return (await page.$(panel)) ? panel : undefined;
+}
+
+async function fillDate(
+  context: SiteAdapterContext,
+  panel: string,
+  formField: string,
+  name: string,
+  fieldType: FieldType,
+  date?: string,
+  includeMonth = true
+) {
+  const { month, year } = monthYear(date);
+  const scope = `${panel} [data-automation-id="formField-${formField}"]`;
+  if (includeMonth) {
+    await fillText(context, `${scope} [data-automation-id="dateSectionMonth-input"]`, `${name} month`, month, fieldType);
+  }
+  await fillText(context, `${scope} [data-automation-id="dateSectionYear-input"]`, `${name} year`, year, fieldType);
+}
+
+async function fillWorkHistory(context: SiteAdapterContext, experience: WorkExperience[]) {
+  const { page } = context;
+  if (!(await page.$(WORK_SECTION))) {
+    return;
+  }
+
+  for (let i = 0; i < experience.length; i++) {
+    const job = experience[i];
+    const panel = await ensurePanel(context, WORK_SECTION, 'workExperience', i + 1);
+    if (!panel) {
+      break;
+    }
+
+    await fillText(context, `${panel} [data-automation-id="jobTitle"]`, `Job ${i + 1} title`, job.position, FieldType.WORK_TITLE);
+    await fillText(context, `${panel} [data-automation-id="company"]`, `Job ${i + 1} company`, job.company, FieldType.WORK_COMPANY);
+    await fillText(context, `${panel} [data-automation-id="location"]`, `Job ${i + 1} location`, job.location, FieldType.WORK_LOCATION);
+    await fillText(context, `${panel} [data-automation-id="description"]`, `Job ${i + 1} description`, job.description, FieldType.WORK_DESCRIPTION);
+
+    const currentCheckbox = `${panel} [data-automation-id="currentlyWorkHere"]`;
+    if (job.current && (await page.$(currentCheckbox))) {
+      await context.fillField({ selector: currentCheckbox, name: `Job ${i + 1} current`, type: 'checkbox' }, 'true', FieldType.WORK_CURRENT);
+    }
+
+    await fillDate(context, panel, 'startDate', `Job ${i + 1} start`, FieldType.WORK_START_DATE, job.startDate);
+    if (!job.current) {
+      await fillDate(context, panel, 'endDate', `Job ${i + 1} end`, FieldType.WORK_END_DATE, job.endDate);
+    }
+  }
+}
+
+async function fillEducation(context: SiteAdapterContext, education: Education[]) {
+  const { page } = context;
+  if (!(await page.$(EDUCATION_SECTION))) {
+    return;
+  }
+
+  for (let i = 0; i < education.length; i++) {
+    const entry = education[i];
+    const panel = await ensurePanel(context, EDUCATION_SECTION, 'education', i + 1);
+    if (!panel) {
+      break;
+    }
+
+    await fillText(context, `${panel} [data-automation-id="school"]`, `School ${i + 1}`, entry.institution, FieldType.EDUCATION_SCHOOL);
+    await chooseDropdownOption(context, `${panel} button[data-automation-id="degree"]`, `Degree ${i + 1}`, entry.degree, FieldType.EDUCATION_DEGREE);
+    await fillText(context, `${panel} [data-automation-id="gpa"]`, `GPA ${i + 1}`, entry.gpa, FieldType.EDUCATION_GPA);
+    await fillDate(context, panel, 'firstYearAttended', `School ${i + 1} start`, FieldType.EDUCATION_START_DATE, entry.startDate, false);
+    await fillDate(context, panel, 'lastYearAttended', `School ${i + 1} end`, FieldType.EDUCATION_END_DATE, entry.endDate, false);
+  }
+}
+
+async function activeStepName(page: Page): Promise<string | undefined> {
+  return page.$eval(ACTIVE_STEP, (el) => el.textContent?.trim() || '').catch(() => undefined);
+}
+
+export const workdayAdapter: SiteAdapter = {
+  name: 'Workday',
+  // Workday's bot detection rejects applications typed at a constant speed
+  interactionProfile: 'human',
+
+  async detect(page, url) {
+    if (url && /\.myworkday(jobs|site)\.com/i.test(url)) {
+      return true;
+    }
+    return !!(await page.$('[data-automation-id="applyFlowPage"], [data-automation-id="progressBar"]'));
+  },
+
+  async run(context) {
+    const { page, session } = context;
+    const visitedSteps = new Set<string>();
+
+    for (let step = 1; step <= MAX_STEPS; step++) {
+      await page.waitForSelector(`${ACTIVE_STEP}, ${NEXT_BUTTON}`, { timeout: 10000 }).catch(() => {});
+      const stepName = (await activeStepName(page)) || `Step ${step}`;
+
+      // Workday re-renders the same step when validation fails, so stop instead of looping
+      if (visitedSteps.has(stepName)) {
+        session.errors.push({
+          type: 'navigation_error',
+          message: `Workday did not advance past "${stepName}"`,
+          timestamp: new Date().toISOString(),
+        });
+        break;
+      }
+      visitedSteps.add(stepName);
+
+      session.currentStep = `Workday: ${stepName}`;
+      session.progress = Math.min(10 + (step / MAX_STEPS) * 80, 90);
+      context.publish();
+
+      await fillPersonalInfo(context);
+      await fillWorkHistory(context, context.profile.workExperience || []);
+      await fillEducation(context, context.user?.education || []);
+
+      const unmappedFields = await context.fillRemainingFields();
+      if (unmappedFields.length > 0) {
+        await context.promptForUnmappedFields(unmappedFields);
+      }
+      if (session.status !== 'running') {
+        return;
+      }
+
+      // The review step has a submit button instead of next; the engine applies the submit policy
+      const nextButton = await page.$(NEXT_BUTTON);
+      if (!nextButton) {
+        session.currentStep = 'Workday application ready for review';
+        break;
+      }
+      await context.click(nextButton);
+      await page
+        .waitForFunction(
+          (selector: string, previous: string) => document.querySelector(selector)?.textContent?.trim() !== previous,
+          { timeout: 10000 },
+          ACTIVE_STEP,
+          stepName
+        )
+        .catch(() => {});
+    }
+  },
+};
@@ -1,27 +1,198 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import { EventEmitter } from 'events';
+import puppeteer, { Browser, BrowserContext, ElementHandle, Frame, Page } from 'puppeteer';
 import { v4 as uuidv4 } from 'uuid';
-import type { AutomationSession, Profile, User, FormField, FieldType, FieldMapping } from '../../../shared/types.js';
+import { FieldType } from '../../../shared/types.js';
+import type {
+  AutomationSession,
+  AutomationFieldEvent,
+  Profile,
+  User,
+  FormField,
+  FieldOption,
+  FieldMapping,
+  PendingFieldAnswer,
+  RepeaterPosition,
+  FieldPlanEntry,
+  FieldValueSource,
+  AutomationSessionRecord,
+  SessionFieldSummary,
+  SessionSnapshot,
+  SubmitPolicy,
+  InteractionProfile,
+  ReviewField,
+  Application,
+} from '../../../shared/types.js';
+import { createSelectorTools } from '../../../shared/selectors.js';
+import type { SelectorTools } from '../../../shared/selectors.js';
+import { createFieldContextTools, fieldDescriptors, fieldKey, fieldLocation } from '../../../shared/fieldContext.js';
+import type { FieldContextTools } from '../../../shared/fieldContext.js';
+import { createRepeaterTools } from '../../../shared/repeaters.js';
+import type { RepeaterTools } from '../../../shared/repeaters.js';
+import { createWizardTools } from '../../../shared/wizard.js';
+import type { WizardTools } from '../../../shared/wizard.js';
+import { createValueTools } from '../../../shared/inputValues.js';
+import type { ValueTools } from '../../../shared/inputValues.js';
+import { findScreeningAnswer } from '../../../shared/answerBank.js';
+import { isAffirmative, matchOption } from '../../../shared/optionMatching.js';
+import { dateOption, formatDateForField } from '../../../shared/dates.js';
+import { EDUCATION_ENTRY_TYPES, WORK_ENTRY_TYPES, profileValue } from '../../../shared/profileValues.js';
 import { StorageService } from './storageService.js';
+import { ResumeService } from './resumeService.js';
+import { fieldPause, interactionSettings, keystrokeDelay } from './interactionProfiles.js';
+import type { InteractionSettings } from './interactionProfiles.js';
+import type { SiteAdapter, SiteAdapterContext } from './adapters/siteAdapter.js';
+import { workdayAdapter } from './adapters/workdayAdapter.js';
+import { greenhouseAdapter } from './adapters/greenhouseAdapter.js';
+import { leverAdapter } from './adapters/leverAdapter.js';
+
+// Launch options, set in backend/.env. Headful is the default so the user can watch and submit.
+const HEADLESS = process.env.AUTOMATION_HEADLESS === 'true';
+const BROWSER_IDLE_TIMEOUT_MS = Number(process.env.AUTOMATION_BROWSER_IDLE_TIMEOUT_MS) || 5 * 60 * 1000;
+
+// Per-session browser state; stopping a session aborts the controller and closes the context
+interface SessionRuntime {
+  controller: AbortController;
+  context?: BrowserContext;
+}
+
+interface JobPosting {
+  company?: string;
+  role?: string;
+}
+
+interface PendingPrompt {
+  answers: PendingFieldAnswer[];
+  resolve: (answers: PendingFieldAnswer[]) => void;
+}
+
+type RepeaterKind = 'work' | 'education';
+
+interface FieldValueResult {
+  value?: string;
+  needsUserInput: boolean;
+  suggestedType?: FieldType;
+  source: FieldValueSource;
+  confidence: number;
+}
+
+// Confidence reported in dry-run plans for values that did not come from a learned mapping
+const ANSWER_BANK_CONFIDENCE = 0.9;
+const RULE_CONFIDENCE = 0.6;
+const REPEATER_CONFIDENCE = 0.7;
+const DOCUMENT_CONFIDENCE = 0.9;
+
+// Time given to the page's validation to react after a field loses focus
+const VALIDATION_SETTLE_MS = 150;
+
+// Multi-page forms: safety limit on steps, and how long and how often to check that a step advanced
+const MAX_FORM_PAGES = 10;
+const STEP_TIMEOUT_MS = 10000;
+const STEP_POLL_MS = 200;
+
+// How long a typeahead gets to show suggestions for a query
+const SUGGESTION_TIMEOUT_MS = 5000;
+
+// Matched in order against normalized descriptors of fields inside a repeated section
+const REPEATER_RULES: { kind: RepeaterKind; pattern: RegExp; fieldType: FieldType }[] = [
+  { kind: 'work', pattern: /\b(company|employer|organi[sz]ation)\b/, fieldType: FieldType.WORK_COMPANY },
+  { kind: 'work', pattern: /\b(currently|current|present)\b/, fieldType: FieldType.WORK_CURRENT },
+  { kind: 'work', pattern: /\b(title|position|role)\b/, fieldType: FieldType.WORK_TITLE },
+  { kind: 'work', pattern: /\b(description|responsibilities|duties|summary)\b/, fieldType: FieldType.WORK_DESCRIPTION },
+  { kind: 'work', pattern: /\b(location|city)\b/, fieldType: FieldType.WORK_LOCATION },
+  { kind: 'work', pattern: /\b(start|from)\b/, fieldType: FieldType.WORK_START_DATE },
+  { kind: 'work', pattern: /\b(end|to|until)\b/, fieldType: FieldType.WORK_END_DATE },
+  { kind: 'education', pattern: /\b(school|university|institution|college)\b/, fieldType: FieldType.EDUCATION_SCHOOL },
+  { kind: 'education', pattern: /\b(gpa|grade)\b/, fieldType: FieldType.EDUCATION_GPA },
+  { kind: 'education', pattern: /\b(major|discipline|field of study)\b/, fieldType: FieldType.EDUCATION_FIELD_OF_STUDY },
+  { kind: 'education', pattern: /\bdegree\b/, fieldType: FieldType.EDUCATION_DEGREE },
+  { kind: 'education', pattern: /\b(start|from)\b/, fieldType: FieldType.EDUCATION_START_DATE },
+  { kind: 'education', pattern: /\b(end|to|until|graduation|graduated)\b/, fieldType: FieldType.EDUCATION_END_DATE },
+];
+
+// Split camelCase and bracketed names ("jobs[0][startDate]") into plain words
+function normalizeDescriptor(descriptor: string): string {
+  return descriptor
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .toLowerCase();
+}
+
+// None of a field's choices fits the value; the field is handed to the user like an unmapped one
+class NoMatchingOptionError extends Error {}
+
+// The session is not in the state a request expects, e.g. answering a prompt it no longer shows
+export class SessionStateError extends Error {}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Repeated sections are told apart by their container and the frame holding it
+function repeaterKey(field: FormField): string {
+  return [...(field.framePath || []), field.repeater!.group].join('\n');
+}
+
+// Set on every page and frame the engine works in by installPageTools(); a page navigated to
+// a new document has none until they are installed again
+declare global {
+  interface Window {
+    __applicationatorSelectors?: SelectorTools;
+    __applicationatorFieldContext?: FieldContextTools;
+    __applicationatorRepeaters?: RepeaterTools;
+    __applicationatorWizard?: WizardTools;
+    __applicationatorValues?: ValueTools;
+  }
+}
+
+export type SessionStreamListener = (
+  event: 'field' | 'session',
+  data: AutomationFieldEvent | AutomationSession
+) => void;
 
 class AutomationService {
-  private browser: Browser | null = null;
+  private browser: Promise<Browser> | null = null;
+  private browserShutdownTimer: NodeJS.Timeout | null = null;
+  private runtimes: Map<string, SessionRuntime> = new Map();
   private activeSessions: Map<string, AutomationSession> = new Map();
+  private pendingPrompts: Map<string, PendingPrompt> = new Map();
+  private pendingPlans: Map<string, (overrides: PendingFieldAnswer[] | null) => void> = new Map();
+  private pendingSubmits: Map<string, (approved: boolean) => void> = new Map();
+  private sessionEvents: Map<string, AutomationFieldEvent[]> = new Map();
+  private profileNames: Map<string, string> = new Map();
+  private postings: Map<string, JobPosting> = new Map();
+  private persistedStatus: Map<string, AutomationSession['status']> = new Map();
+  private persistQueue: Map<string, Promise<void>> = new Map();
+  private emitter = new EventEmitter();
+  private adapters: SiteAdapter[] = [workdayAdapter, greenhouseAdapter, leverAdapter];
+
+  registerAdapter(adapter: SiteAdapter) {
+    this.adapters.push(adapter);
+  }
 
   async startSession(config: {
     profileId: string;
     url?: string;
     mode: 'url' | 'manual';
+    dryRun?: boolean;
+    submitPolicy?: SubmitPolicy;
+    interactionProfile?: InteractionProfile;
   }): Promise<AutomationSession> {
     const profile = await StorageService.getProfile(config.profileId);
     if (!profile) {
       throw new Error('Profile not found');
     }
 
+    this.profileNames.set(profile.id, profile.name);
+
     const session: AutomationSession = {
       id: uuidv4(),
       profileId: config.profileId,
       url: config.url,
       mode: config.mode,
+      dryRun: config.dryRun || undefined,
+      submitPolicy: config.submitPolicy || 'never',
+      // Left unset so a site adapter can choose; the default profile applies otherwise
+      interactionProfile: config.interactionProfile,
       status: 'running',
       progress: 0,
       errors: [],
@@ -29,37 +200,93 @@ class AutomationService {
     };
 
     this.activeSessions.set(session.id, session);
+    this.runtimes.set(session.id, { controller: new AbortController() });
+    this.persistSession(session);
+
+    // A dry run responds once the plan is ready (or the run has failed)
+    const planReady = config.dryRun
+      ? new Promise<void>((resolve) => {
+          const listener = () => {
+            if (session.plan || session.status !== 'running') {
+              this.emitter.off(session.id, listener);
+              resolve();
+            }
+          };
+          this.emitter.on(session.id, listener);
+        })
+      : undefined;
 
     // Start automation in background
     this.runAutomation(session, profile).catch((error) => {
+      if (session.status === 'idle') {
+        return;
+      }
       session.status = 'error';
       session.errors.push({
         type: 'other',
         message: error.message,
         timestamp: new Date().toISOString(),
       });
+      this.publishSession(session);
     });
 
+    await planReady;
     return session;
   }
 
   private async runAutomation(session: AutomationSession, profile: Profile) {
+    const runtime = this.runtimes.get(session.id)!;
+    let page: Page | undefined;
     try {
       // Get user data for personal info and education
       const user = await StorageService.getUser();
-      
-      if (!this.browser) {
-        this.browser = await puppeteer.launch({
-          headless: false, // Set to true for production
-          args: ['--no-sandbox', '--disable-setuid-sandbox'],
-        });
-      }
 
-      const page = await this.browser.newPage();
-      
+      // Each session gets its own context, so cookies and tabs never leak between applications
+      const browser = await this.getBrowser();
+      runtime.context = await browser.createBrowserContext();
+      this.checkCancelled(session);
+      page = await runtime.context.newPage();
+      // Closing the window ends the session the way stopping it does, but as a failure unless
+      // the application was already finished
+      page.on('close', () => {
+        this.releaseSession(session.id, 'error', 'The browser page was closed', runtime);
+      });
+
       if (session.url) {
         await page.goto(session.url, { waitUntil: 'networkidle2' });
       }
+      this.postings.set(session.id, await this.describePosting(page, session.url));
+
+      if (session.dryRun) {
+        await this.runDryRun(page, session, profile, user);
+        return;
+      }
+
+      // Let a site adapter own the application when it recognises the ATS
+      const adapter = await this.findAdapter(page, session.url);
+      if (adapter) {
+        session.currentStep = `Using ${adapter.name} adapter`;
+        session.interactionProfile ??= adapter.interactionProfile;
+        this.publishSession(session);
+        const errorCount = session.errors.length;
+        await adapter.run(this.createAdapterContext(page, session, profile, user));
+        // An adapter stuck on a step leaves the form half filled; never submit or record it then
+        if (session.status === 'running' && session.errors.slice(errorCount).some((error) => error.type === 'navigation_error')) {
+          session.status = 'error';
+          this.publishSession(session);
+          return;
+        }
+        if (session.status === 'running') {
+          await this.submitForm(page, session);
+        }
+        if (session.status === 'running') {
+          session.progress = 100;
+          session.status = 'completed';
+          session.completedAt = new Date().toISOString();
+          this.publishSession(session);
+        }
+        return;
+      }
 
       // Check if this is a multi-page form
       const isMultiPage = await this.detectMultiPageForm(page);
@@ -71,353 +298,1918 @@ class AutomationService {
         const fields = await this.detectFormFields(page);
         session.currentStep = `Found ${fields.length} form fields`;
         session.progress = 10;
+        this.publishSession(session);
 
-      // Fill fields based on profile and user data
-      const unmappedFields: FormField[] = [];
-      for (let i = 0; i < fields.length; i++) {
-        const field = fields[i];
-        const result = await this.getFieldValue(field, profile, user);
-        
-        if (result.value) {
-          try {
-            await this.fillField(page, field, result.value);
-            session.progress = 10 + (i / fields.length) * 70;
-            
-            // Learn the mapping if it was rule-based
-            if (result.suggestedType && result.suggestedType !== FieldType.UNKNOWN) {
-              await this.learnFieldMapping(field.name, result.suggestedType);
-            }
-          } catch (error: any) {
-            session.errors.push({
-              type: 'field_not_found',
-              message: `Failed to fill ${field.name}: ${error.message}`,
-              fieldName: field.name,
-              timestamp: new Date().toISOString(),
-            });
-          }
-        } else if (result.needsUserInput) {
-          unmappedFields.push(field);
-        }
-      }
-
-      // Handle unmapped fields - in production, this would pause and wait for user input
-      if (unmappedFields.length > 0) {
-        session.currentStep = `Found ${unmappedFields.length} unmapped fields requiring user input`;
-        session.errors.push({
-          type: 'field_unmapped',
-          message: `Fields need mapping: ${unmappedFields.map(f => f.name).join(', ')}`,
-          timestamp: new Date().toISOString(),
+        // Fill fields based on profile and user data
+        const unmappedFields = await this.fillFields(page, session, fields, profile, user, (i) => {
+          session.progress = 10 + (i / fields.length) * 70;
         });
-      }
+
+        // Pause and wait for the user to map any remaining fields
+        if (unmappedFields.length > 0) {
+          await this.promptForUnmappedFields(page, session, unmappedFields, profile, user);
+        }
+        this.checkCancelled(session);
+        await this.submitForm(page, session);
 
         session.progress = 100;
         session.status = 'completed';
         session.completedAt = new Date().toISOString();
+        this.publishSession(session);
       }
     } catch (error: any) {
+      // A stopped session fails its in-flight page calls; that is not an error
+      if (runtime.controller.signal.aborted) {
+        return;
+      }
+      if (page) {
+        await this.captureSnapshot(page, session, 'error', session.currentStep || 'Automation', error.message);
+      }
       session.status = 'error';
       session.errors.push({
         type: 'other',
         message: error.message,
         timestamp: new Date().toISOString(),
       });
+      this.publishSession(session);
+    } finally {
+      this.postings.delete(session.id);
+      // Headful windows stay open so the user can review and submit; they are released when
+      // the user closes the page or stops the session
+      if (HEADLESS || runtime.controller.signal.aborted) {
+        await this.disposeSession(session.id, runtime);
+      }
     }
   }
 
-  private async detectFormFields(page: Page): Promise<FormField[]> {
-    return await page.evaluate(() => {
-      const fields: FormField[] = [];
-      const inputs = document.querySelectorAll('input, select, textarea');
-      
-      inputs.forEach((input) => {
-        const element = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
-        const name = element.getAttribute('name') || 
-                    element.getAttribute('id') || 
-                    element.getAttribute('placeholder') || 
-                    'unknown';
-        
-        let type: FormField['type'] = 'text';
-        if (element.tagName === 'SELECT') {
-          type = 'select';
-        } else if (element.tagName === 'TEXTAREA') {
-          type = 'textarea';
-        } else if (element instanceof HTMLInputElement) {
-          type = (element.type || 'text') as FormField['type'];
+  private async getBrowser(): Promise<Browser> {
+    if (this.browserShutdownTimer) {
+      clearTimeout(this.browserShutdownTimer);
+      this.browserShutdownTimer = null;
+    }
+    if (!this.browser) {
+      const launch = puppeteer.launch({
+        headless: HEADLESS,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      });
+      this.browser = launch;
+      launch
+        .then((browser) => {
+          browser.on('disconnected', () => {
+            if (this.browser === launch) {
+              this.browser = null;
+            }
+          });
+        })
+        .catch(() => {
+          this.browser = null;
+        });
+    }
+    return this.browser;
+  }
+
+  // Close the session's browser context, and the browser once no session has been using it for a while
+  private async disposeSession(id: string, runtime = this.runtimes.get(id)) {
+    if (this.runtimes.get(id) === runtime) {
+      this.runtimes.delete(id);
+    }
+    const context = runtime?.context;
+    if (runtime) {
+      runtime.context = undefined;
+    }
+    await context?.close().catch(() => {});
+
+    if (this.runtimes.size === 0 && this.browser && !this.browserShutdownTimer) {
+      this.browserShutdownTimer = setTimeout(() => {
+        this.browserShutdownTimer = null;
+        const browser = this.browser;
+        if (this.runtimes.size === 0 && browser) {
+          this.browser = null;
+          browser.then((b) => b.close()).catch(() => {});
         }
+      }, BROWSER_IDLE_TIMEOUT_MS);
+      this.browserShutdownTimer.unref();
+    }
+  }
 
-        fields.push({
-          selector: `[name="${element.getAttribute('name')}"]` || 
-                   `#${element.getAttribute('id')}` || 
-                   `input[type="${type}"]`,
-          name,
-          type,
-          required: element.hasAttribute('required'),
-        });
-      });
+  // Throw out of the automation loop once the session has been stopped
+  private checkCancelled(session: AutomationSession) {
+    this.runtimes.get(session.id)?.controller.signal.throwIfAborted();
+  }
 
-      return fields;
+  // Resolve every field on the page without touching the form, wait for the user to review
+  // the plan, then fill it with their overrides. Site adapters are bypassed in a dry run.
+  private async runDryRun(page: Page, session: AutomationSession, profile: Profile, user: User | null) {
+    const fields = await this.detectFormFields(page);
+    for (const field of fields) {
+      this.emitFieldEvent(session, 'detected', field);
+    }
+    const plan = await this.planFields(fields, profile, user);
+
+    session.status = 'paused';
+    session.currentStep = `Plan ready for review: ${plan.filter((entry) => entry.value).length} of ${plan.length} fields resolved`;
+    session.progress = 10;
+    session.plan = plan;
+    this.publishSession(session);
+
+    const overrides = await new Promise<PendingFieldAnswer[] | null>((resolve) => {
+      this.pendingPlans.set(session.id, resolve);
     });
+    this.pendingPlans.delete(session.id);
+
+    // Session was stopped during review
+    if (!overrides || session.status !== 'paused') {
+      this.checkCancelled(session);
+      return;
+    }
+    session.status = 'running';
+    session.currentStep = 'Applying plan';
+    this.publishSession(session);
+
+    await this.executePlan(page, session, plan, overrides, profile, user);
+    await this.submitForm(page, session);
+
+    session.progress = 100;
+    session.status = 'completed';
+    session.completedAt = new Date().toISOString();
+    this.publishSession(session);
   }
 
-  private async getFieldValue(field: FormField, profile: Profile, user: User | null): Promise<{ value?: string; needsUserInput: boolean; suggestedType?: FieldType }> {
-    // Check learned mappings first
+  private async planFields(fields: FormField[], profile: Profile, user: User | null): Promise<FieldPlanEntry[]> {
     const mappings = await StorageService.getFieldMappings();
-    const mapping = mappings.find((m: FieldMapping) => 
-      m.fieldName.toLowerCase() === field.name.toLowerCase()
-    );
+    const repeaters = this.groupRepeaters(fields, mappings);
+    const plan: FieldPlanEntry[] = [];
 
-    if (mapping && mapping.fieldType !== FieldType.UNKNOWN) {
-      const value = this.extractValue(profile, user, mapping.fieldType);
-      if (value) {
-        return { value, needsUserInput: false, suggestedType: mapping.fieldType };
+    for (const field of fields) {
+      const repeater = field.repeater && repeaters.get(repeaterKey(field));
+      // Entry fields the section's kind does not cover are planned like any other field
+      const fieldType = repeater && this.repeaterFieldType(field, repeater.kind, mappings);
+      if (fieldType) {
+        const value = profileValue(profile, user, fieldType, field.repeater!.index);
+        plan.push(
+          value
+            ? { field, fieldType, value, source: 'repeater', confidence: REPEATER_CONFIDENCE }
+            : { field, fieldType, source: 'none', confidence: 0 }
+        );
+        continue;
       }
-    }
 
-    // Try rule-based matching
-    const ruleBased = this.ruleBasedFieldMatch(field.name, profile, user);
-    if (ruleBased.value) {
-      return { value: ruleBased.value, needsUserInput: false, suggestedType: ruleBased.type };
+      const result = await this.getFieldValue(field, profile, user);
+      plan.push({
+        field,
+        fieldType: result.suggestedType,
+        value: result.value,
+        source: result.source,
+        confidence: result.confidence,
+      });
     }
 
-    // Needs user input
-    return { needsUserInput: true, suggestedType: FieldType.UNKNOWN };
+    return plan;
   }
 
-  private extractValue(profile: Profile, user: User | null, fieldType: FieldType): string | undefined {
-    // Use user data for personal info, profile data for work experience, skills, etc.
-    const personalInfo = user?.personalInfo;
-    
-    if (!personalInfo) {
-      return undefined;
-    }
-    
-    switch (fieldType) {
-      case FieldType.FIRST_NAME:
-        return personalInfo.firstName;
-      case FieldType.LAST_NAME:
-        return personalInfo.lastName;
-      case FieldType.FULL_NAME:
-        return `${personalInfo.firstName} ${personalInfo.lastName}`;
-      case FieldType.EMAIL:
-        return personalInfo.email;
-      case FieldType.PHONE:
-        return personalInfo.phone;
-      case FieldType.ADDRESS_STREET:
-        return personalInfo.address.street;
-      case FieldType.ADDRESS_CITY:
-        return personalInfo.address.city;
-      case FieldType.ADDRESS_STATE:
-        return personalInfo.address.state;
-      case FieldType.ADDRESS_ZIP:
-        return personalInfo.address.zipCode;
-      case FieldType.ADDRESS_COUNTRY:
-        return personalInfo.address.country;
-      case FieldType.LINKEDIN:
-        return personalInfo.linkedIn;
-      case FieldType.PORTFOLIO:
-        return personalInfo.portfolio;
-      case FieldType.EDUCATION:
-        // Return education from user data
-        if (user?.education && user.education.length > 0) {
-          return user.education.map(e => `${e.degree} from ${e.institution}`).join('; ');
+  // Fill the reviewed plan, applying per-field overrides of type, value or skip
+  private async executePlan(
+    page: Page,
+    session: AutomationSession,
+    plan: FieldPlanEntry[],
+    overrides: PendingFieldAnswer[],
+    profile: Profile,
+    user: User | null
+  ) {
+    for (let i = 0; i < plan.length; i++) {
+      this.checkCancelled(session);
+      const entry = plan[i];
+      const { field } = entry;
+      const override = overrides.find((o) => fieldLocation(o) === fieldLocation(field));
+
+      if (override?.skip) {
+        this.emitFieldEvent(session, 'skipped', field, { message: 'Skipped in plan review' });
+        continue;
+      }
+
+      const overrideType = override?.fieldType && override.fieldType !== FieldType.UNKNOWN ? override.fieldType : undefined;
+      const fieldType = overrideType || entry.fieldType;
+      let value = override?.value || entry.value;
+      if (!override?.value && overrideType) {
+        value = await this.valueForType(field, profile, user, overrideType, field.repeater?.index).catch(() => undefined);
+      }
+
+      if (!value) {
+        if (field.required) {
+          session.errors.push({
+            type: 'field_unmapped',
+            message: `No value planned for required field ${fieldKey(field)}`,
+            fieldName: fieldKey(field),
+            timestamp: new Date().toISOString(),
+          });
         }
-        return undefined;
-      default:
-        return undefined;
-    }
-  }
+        this.emitFieldEvent(session, 'skipped', field, { fieldType, message: 'No value in plan' });
+        continue;
+      }
 
-  private ruleBasedFieldMatch(fieldName: string, profile: Profile, user: User | null): { value?: string; type: FieldType } {
-    const lower = fieldName.toLowerCase();
-    const personalInfo = user?.personalInfo;
+      this.emitFieldEvent(session, 'matched', field, { fieldType });
+      try {
+        const written = await this.fillField(page, session, field, value);
+        session.progress = 10 + ((i + 1) / plan.length) * 85;
+        this.publishSession(session);
+        this.emitFieldEvent(session, 'filled', field, { fieldType });
+        await this.verifyField(page, session, field, written);
 
-    if (!personalInfo) {
-      return { type: FieldType.UNKNOWN };
+        // Remember the user's corrections, and rule-based matches as fillFields does
+        if (override?.value) {
+          await this.learnFieldValue(fieldKey(field), override.value);
+        } else if (fieldType && fieldType !== FieldType.UNKNOWN && (overrideType || entry.source === 'rule' || entry.source === 'repeater')) {
+          await this.learnFieldMapping(fieldKey(field), fieldType);
+        }
+      } catch (error: any) {
+        await this.recordFillFailure(page, session, field, error);
+      }
     }
+  }
 
-    if (lower.includes('first') && lower.includes('name')) {
-      return { value: personalInfo.firstName, type: FieldType.FIRST_NAME };
-    }
-    if ((lower.includes('last') || lower.includes('surname')) && lower.includes('name')) {
-      return { value: personalInfo.lastName, type: FieldType.LAST_NAME };
-    }
-    if (lower.includes('email')) {
-      return { value: personalInfo.email, type: FieldType.EMAIL };
-    }
-    if (lower.includes('phone') || lower.includes('tel')) {
-      return { value: personalInfo.phone, type: FieldType.PHONE };
-    }
-    if (lower.includes('address') && lower.includes('street')) {
-      return { value: personalInfo.address.street, type: FieldType.ADDRESS_STREET };
+  private async findAdapter(page: Page, url?: string): Promise<SiteAdapter | undefined> {
+    for (const adapter of this.adapters) {
+      if (await adapter.detect(page, url)) {
+        return adapter;
+      }
     }
-    if (lower.includes('city')) {
-      return { value: personalInfo.address.city, type: FieldType.ADDRESS_CITY };
+    return undefined;
+  }
+
+  private createAdapterContext(page: Page, session: AutomationSession, profile: Profile, user: User | null): SiteAdapterContext {
+    return {
+      page,
+      session,
+      profile,
+      user,
+      fillField: async (field, value, fieldType) => {
+        this.checkCancelled(session);
+        this.emitFieldEvent(session, 'matched', field, { fieldType });
+        try {
+          const written = await this.fillField(page, session, field, value);
+          this.emitFieldEvent(session, 'filled', field, { fieldType });
+          await this.verifyField(page, session, field, written);
+          return true;
+        } catch (error: any) {
+          await this.recordFillFailure(page, session, field, error);
+          return false;
+        }
+      },
+      uploadFile: async (field, filePath) => {
+        this.checkCancelled(session);
+        this.emitFieldEvent(session, 'matched', field, { fieldType: FieldType.RESUME });
+        try {
+          await this.uploadFile(await this.frameOf(page, field), field, filePath);
+          this.emitFieldEvent(session, 'filled', field, { fieldType: FieldType.RESUME });
+          return true;
+        } catch (error: any) {
+          await this.recordFillFailure(page, session, field, error);
+          return false;
+        }
+      },
+      getResumeFile: () => ResumeService.resolveDocument(profile, user, FieldType.RESUME),
+      recordFieldEvent: (type, field, details) => this.emitFieldEvent(session, type, field, details),
+      recordFillFailure: (field, error) => this.recordFillFailure(page, session, field, error),
+      click: (target) => this.clickElement(page.mainFrame(), target, interactionSettings(session.interactionProfile)),
+      fillRemainingFields: async () => {
+        this.checkCancelled(session);
+        const fields = (await this.detectFormFields(page)).filter((field) => !field.value);
+        return this.fillFields(page, session, fields, profile, user);
+      },
+      promptForUnmappedFields: (fields) => this.promptForUnmappedFields(page, session, fields, profile, user),
+      publish: () => this.publishSession(session),
+    };
+  }
+
+  // Fill each detected field from profile and user data, returning those that need user input
+  private async fillFields(
+    page: Page,
+    session: AutomationSession,
+    fields: FormField[],
+    profile: Profile,
+    user: User | null,
+    onFilled?: (index: number) => void
+  ): Promise<FormField[]> {
+    const unmappedFields: FormField[] = [];
+
+    for (const field of fields) {
+      this.emitFieldEvent(session, 'detected', field);
     }
-    if (lower.includes('state') && !lower.includes('address')) {
-      return { value: personalInfo.address.state, type: FieldType.ADDRESS_STATE };
+
+    // Work history and education sections are filled per entry, everything else field by field
+    const mappings = await StorageService.getFieldMappings();
+    const repeaters = this.groupRepeaters(fields, mappings);
+    const plainFields = fields.filter((field) => !field.repeater || !repeaters.has(repeaterKey(field)));
+
+    for (let i = 0; i < plainFields.length; i++) {
+      this.checkCancelled(session);
+      const field = plainFields[i];
+      if (await this.fillPlainField(page, session, field, profile, user, () => onFilled?.(i))) {
+        unmappedFields.push(field);
+      }
     }
-    if (lower.includes('zip') || lower.includes('postal')) {
-      return { value: personalInfo.address.zipCode, type: FieldType.ADDRESS_ZIP };
+
+    if (repeaters.size > 0) {
+      unmappedFields.push(...(await this.fillRepeaters(page, session, repeaters, profile, user, mappings)));
     }
 
-    return { type: FieldType.UNKNOWN };
+    return unmappedFields;
   }
 
-  private async fillField(page: Page, field: FormField, value: string) {
-    const selector = field.selector;
-    
-    switch (field.type) {
-      case 'select':
-        await page.select(selector, value);
-        break;
-      case 'checkbox':
-        await page.click(selector);
-        break;
-      case 'file':
-        // File upload handling would go here
-        break;
-      default:
-        await page.type(selector, value, { delay: 50 });
-        break;
+  // Fill a field from its learned or rule-based value; returns true when the user has to answer it
+  private async fillPlainField(
+    page: Page,
+    session: AutomationSession,
+    field: FormField,
+    profile: Profile,
+    user: User | null,
+    onFilled?: () => void
+  ): Promise<boolean> {
+    const result = await this.getFieldValue(field, profile, user);
+    if (!result.value) {
+      return !!result.needsUserInput;
     }
-  }
 
-  async getSession(id: string): Promise<AutomationSession | null> {
-    return this.activeSessions.get(id) || null;
-  }
+    this.emitFieldEvent(session, 'matched', field, { fieldType: result.suggestedType });
+    try {
+      const written = await this.fillField(page, session, field, result.value);
+      onFilled?.();
+      this.publishSession(session);
+      this.emitFieldEvent(session, 'filled', field, { fieldType: result.suggestedType });
+      await this.verifyField(page, session, field, written);
 
-  async stopSession(id: string): Promise<void> {
-    const session = this.activeSessions.get(id);
-    if (session) {
-      session.status = 'idle';
+      // Learn the mapping if it was rule-based
+      if (result.suggestedType && result.suggestedType !== FieldType.UNKNOWN) {
+        await this.learnFieldMapping(fieldKey(field), result.suggestedType);
+      }
+    } catch (error: any) {
+      // None of the choices fits the profile value, so the user picks one
+      if (error instanceof NoMatchingOptionError) {
+        return true;
+      }
+      await this.recordFillFailure(page, session, field, error);
     }
-    // Optionally close browser
-    // if (this.browser) {
-    //   await this.browser.close();
-    //   this.browser = null;
-    // }
+    return false;
   }
 
-  private async learnFieldMapping(fieldName: string, fieldType: FieldType) {
-    const mappings = await StorageService.getFieldMappings();
-    const existing = mappings.find((m: FieldMapping) => m.fieldName === fieldName);
-    
-    if (!existing) {
-      mappings.push({
-        fieldName,
-        fieldType,
-        learnedAt: new Date().toISOString(),
-        confidence: 0.8,
-      });
-      await StorageService.saveFieldMappings(mappings);
-    }
-  }
+  // Fill "Add another" sections with one work history or education entry per item, adding
+  // items as needed; returns fields that need user input
+  private async fillRepeaters(
+    page: Page,
+    session: AutomationSession,
+    repeaters: Map<string, { kind: RepeaterKind; fields: FormField[] }>,
+    profile: Profile,
+    user: User | null,
+    mappings: FieldMapping[]
+  ): Promise<FormField[]> {
+    const unmappedFields: FormField[] = [];
 
-  private async detectMultiPageForm(page: Page): Promise<boolean> {
-    // Check for pagination indicators
-    const indicators = await page.evaluate(() => {
-      const text = document.body.textContent?.toLowerCase() || '';
-      const hasStepIndicator = /step \d+ of \d+|page \d+ of \d+|\d+ of \d+/.test(text);
-      const hasProgressBar = document.querySelector('progress, [role="progressbar"], .progress');
-      const hasNextButton = Array.from(document.querySelectorAll('button, a')).some((btn: any) => {
-        const text = btn.textContent?.toLowerCase() || btn.value?.toLowerCase() || '';
-        return text.includes('next') || text.includes('continue');
-      });
-      return hasStepIndicator || !!hasProgressBar || hasNextButton;
-    });
-    return indicators;
-  }
+    for (const { kind, fields: groupFields } of repeaters.values()) {
+      const entryCount = kind === 'work' ? profile.workExperience?.length || 0 : user?.education?.length || 0;
+      const itemCount = Math.max(entryCount, ...groupFields.map((field) => field.repeater!.index + 1));
 
-  // Multi-page form handling
-  async handleMultiPageForm(page: Page, session: AutomationSession, profile: Profile, user: User | null) {
-    let currentPage = 1;
-    let hasNext = true;
-    const maxPages = 10; // Safety limit
+      for (let index = 0; index < itemCount; index++) {
+        let itemFields = groupFields.filter((field) => field.repeater!.index === index);
 
-    while (hasNext && currentPage <= maxPages) {
-      session.currentStep = `Processing page ${currentPage}`;
-      session.progress = Math.min(10 + (currentPage / maxPages) * 80, 90);
-      
-      // Wait for page to be ready
-      await page.waitForSelector('input, select, textarea', { timeout: 5000 }).catch(() => {});
-      
-      // Detect and fill fields on current page
-      const fields = await this.detectFormFields(page);
-      const unmappedFields: FormField[] = [];
-      
-      for (const field of fields) {
-        const result = await this.getFieldValue(field, profile, user);
-        if (result.value) {
-          try {
-            await this.fillField(page, field, result.value);
-            if (result.suggestedType && result.suggestedType !== FieldType.UNKNOWN) {
-              await this.learnFieldMapping(field.name, result.suggestedType);
-            }
-          } catch (error: any) {
+        if (itemFields.length === 0) {
+          // Items the caller filtered out (e.g. already filled by a site adapter) need no new item
+          if ((await this.detectRepeaterItem(page, groupFields[0], index)).length > 0) {
+            continue;
+          }
+          itemFields = await this.addRepeaterItem(page, session, groupFields[0], index);
+          if (itemFields.length === 0) {
             session.errors.push({
-              type: 'field_not_found',
-              message: `Failed to fill ${field.name}: ${error.message}`,
-              fieldName: field.name,
+              type: 'other',
+              message: `Could not add ${kind === 'work' ? 'work history' : 'education'} entry ${index + 1}`,
               timestamp: new Date().toISOString(),
             });
+            break;
+          }
+          for (const field of itemFields) {
+            this.emitFieldEvent(session, 'detected', field);
           }
-        } else if (result.needsUserInput) {
-          unmappedFields.push(field);
         }
-      }
 
-      if (unmappedFields.length > 0) {
-        session.errors.push({
-          type: 'field_unmapped',
-          message: `Page ${currentPage}: Fields need mapping: ${unmappedFields.map(f => f.name).join(', ')}`,
-          timestamp: new Date().toISOString(),
-        });
-      }
+        for (const field of itemFields) {
+          this.checkCancelled(session);
+          if (index >= entryCount) {
+            this.emitFieldEvent(session, 'skipped', field, { message: 'No matching profile entry' });
+            continue;
+          }
 
-      // Look for next/continue button
-      const nextButtonSelector = await page.evaluate(() => {
-        const buttons = Array.from(document.querySelectorAll('button, input[type="submit"], a'));
-        for (const btn of buttons) {
-          const text = (btn.textContent || (btn as HTMLInputElement).value || '').toLowerCase();
-          if (text.includes('next') || text.includes('continue') || text.includes('proceed')) {
-            // Return a selector for this button
-            if (btn.id) return `#${btn.id}`;
-            if (btn.className) return `.${btn.className.split(' ')[0]}`;
-            return null;
+          // Entry fields the section's kind does not cover are filled like any other field
+          const fieldType = this.repeaterFieldType(field, kind, mappings);
+          if (!fieldType) {
+            if (await this.fillPlainField(page, session, field, profile, user)) {
+              unmappedFields.push(field);
+            }
+            continue;
           }
-        }
-        return null;
-      });
 
-      if (nextButtonSelector) {
-        try {
-          await page.click(nextButtonSelector);
-          await page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 10000 }).catch(() => {});
-          // Wait a bit for any dynamic content
-          await page.waitForTimeout(1000);
-          currentPage++;
-        } catch (error: any) {
-          session.errors.push({
-            type: 'navigation_error',
-            message: `Failed to navigate to next page: ${error.message}`,
-            timestamp: new Date().toISOString(),
+          // Empty values (e.g. the end date of a current job) are left blank
+          const value = profileValue(profile, user, fieldType, index);
+          if (!value) {
+            this.emitFieldEvent(session, 'skipped', field, { fieldType, message: 'No value in profile entry' });
+            continue;
+          }
+
+          this.emitFieldEvent(session, 'matched', field, { fieldType });
+          try {
+            const written = await this.fillField(page, session, field, value);
+            this.publishSession(session);
+            this.emitFieldEvent(session, 'filled', field, { fieldType });
+            await this.verifyField(page, session, field, written);
+            await this.learnFieldMapping(fieldKey(field), fieldType);
+          } catch (error: any) {
+            if (error instanceof NoMatchingOptionError) {
+              unmappedFields.push(field);
+            } else {
+              await this.recordFillFailure(page, session, field, error);
+            }
+          }
+        }
+      }
+    }
+
+    return unmappedFields;
+  }
+
+  // Group repeated-section fields by section, keeping only work history and education sections
+  private groupRepeaters(fields: FormField[], mappings: FieldMapping[]): Map<string, { kind: RepeaterKind; fields: FormField[] }> {
+    const groups = new Map<string, FormField[]>();
+    for (const field of fields) {
+      if (field.repeater) {
+        groups.set(repeaterKey(field), [...(groups.get(repeaterKey(field)) || []), field]);
+      }
+    }
+
+    const repeaters = new Map<string, { kind: RepeaterKind; fields: FormField[] }>();
+    for (const [group, groupFields] of groups) {
+      const kind = this.repeaterKind(groupFields, mappings);
+      if (kind) {
+        repeaters.set(group, { kind, fields: groupFields });
+      }
+    }
+    return repeaters;
+  }
+
+  // Decide whether a repeated section holds jobs or schools from its fields' learned and rule-based types
+  private repeaterKind(fields: FormField[], mappings: FieldMapping[]): RepeaterKind | undefined {
+    let work = 0;
+    let education = 0;
+    for (const field of fields) {
+      const fieldType = this.learnedEntryType(field, mappings);
+      const descriptors = [...fieldDescriptors(field), field.section || ''].map(normalizeDescriptor);
+      if (
+        (fieldType && WORK_ENTRY_TYPES.includes(fieldType)) ||
+        descriptors.some((d) => /\b(company|employer|job|title|position|employment)\b/.test(d))
+      ) {
+        work++;
+      } else if (
+        (fieldType && EDUCATION_ENTRY_TYPES.includes(fieldType)) ||
+        descriptors.some((d) => /\b(school|university|institution|college|degree|gpa|major|education)\b/.test(d))
+      ) {
+        education++;
+      }
+    }
+    if (work === 0 && education === 0) {
+      return undefined;
+    }
+    return work >= education ? 'work' : 'education';
+  }
+
+  private repeaterFieldType(field: FormField, kind: RepeaterKind, mappings: FieldMapping[]): FieldType | undefined {
+    const entryTypes = kind === 'work' ? WORK_ENTRY_TYPES : EDUCATION_ENTRY_TYPES;
+    const learned = this.learnedEntryType(field, mappings);
+    if (learned && entryTypes.includes(learned)) {
+      return learned;
+    }
+
+    for (const descriptor of fieldDescriptors(field).map(normalizeDescriptor)) {
+      const rule = REPEATER_RULES.find((r) => r.kind === kind && r.pattern.test(descriptor));
+      if (rule) {
+        return rule.fieldType;
+      }
+    }
+    return undefined;
+  }
+
+  private learnedEntryType(field: FormField, mappings: FieldMapping[]): FieldType | undefined {
+    const descriptors = fieldDescriptors(field).map((d) => d.toLowerCase());
+    const mapping = mappings.find(
+      (m) =>
+        descriptors.includes(m.fieldName.toLowerCase()) &&
+        (WORK_ENTRY_TYPES.includes(m.fieldType) || EDUCATION_ENTRY_TYPES.includes(m.fieldType))
+    );
+    return mapping?.fieldType;
+  }
+
+  // Fields of one item of the section the member field belongs to, in the same frame
+  private async detectRepeaterItem(page: Page, member: FormField, index: number): Promise<FormField[]> {
+    const fields = await this.detectFormFields(page);
+    const framePath = (member.framePath || []).join('\n');
+    return fields.filter(
+      (field) =>
+        field.repeater?.group === member.repeater!.group &&
+        field.repeater.index === index &&
+        (field.framePath || []).join('\n') === framePath
+    );
+  }
+
+  // Click the section's "Add" button and return the fields of the new item
+  private async addRepeaterItem(page: Page, session: AutomationSession, member: FormField, index: number): Promise<FormField[]> {
+    const repeater = member.repeater!;
+    if (!repeater.addButton) {
+      return [];
+    }
+    const frame = await this.frameOf(page, member);
+
+    const countFields = (group: string) => {
+      const { resolveSelector } = window.__applicationatorSelectors!;
+      return resolveSelector(group)?.querySelectorAll('input, select, textarea').length || 0;
+    };
+    const before = await frame.evaluate(countFields, repeater.group);
+
+    await this.clickElement(frame, repeater.addButton, interactionSettings(session.interactionProfile));
+    await frame
+      .waitForFunction(
+        (group: string, count: number) => {
+          const { resolveSelector } = window.__applicationatorSelectors!;
+          return (resolveSelector(group)?.querySelectorAll('input, select, textarea').length || 0) > count;
+        },
+        { timeout: 5000 },
+        repeater.group,
+        before
+      )
+      .catch(() => {});
+
+    return this.detectRepeaterItem(page, member, index);
+  }
+
+  private async recordFillFailure(page: Page, session: AutomationSession, field: FormField, error: any) {
+    session.errors.push({
+      type: 'field_not_found',
+      message: `Failed to fill ${fieldKey(field)}: ${error.message}`,
+      fieldName: fieldKey(field),
+      timestamp: new Date().toISOString(),
+    });
+    this.emitFieldEvent(session, 'failed', field, { message: error.message });
+    await this.captureSnapshot(page, session, 'error', `Filling ${fieldKey(field)}`, error.message);
+  }
+
+  // Save a screenshot and a sanitized copy of the page's HTML under the session's history record.
+  // Capturing is best effort and never fails the session.
+  private async captureSnapshot(page: Page, session: AutomationSession, reason: SessionSnapshot['reason'], step: string, message?: string) {
+    if (page.isClosed() || this.runtimes.get(session.id)?.controller.signal.aborted) {
+      return;
+    }
+    try {
+      const screenshot = Buffer.from(await page.screenshot({ type: 'png', fullPage: true }));
+      const html = await page.evaluate(() => {
+        const root = document.documentElement.cloneNode(true) as HTMLElement;
+        // Nothing in the copy may run, and hidden inputs often carry session tokens
+        root.querySelectorAll('script, noscript, iframe, object, embed').forEach((el) => el.remove());
+        root.querySelectorAll('input[type="hidden"], input[type="password"]').forEach((el) => el.removeAttribute('value'));
+        root.querySelectorAll('*').forEach((el) => {
+          Array.from(el.attributes).forEach((attribute) => {
+            if (attribute.name.startsWith('on') || /^\s*javascript:/i.test(attribute.value)) {
+              el.removeAttribute(attribute.name);
+            }
           });
-          hasNext = false;
+        });
+        // Resolve stylesheets and images against the original page
+        const base = document.createElement('base');
+        base.href = location.href;
+        root.querySelector('head')?.prepend(base);
+        return `<!DOCTYPE html>\n${root.outerHTML}`;
+      });
+
+      const snapshot: SessionSnapshot = {
+        id: uuidv4(),
+        reason,
+        step,
+        url: page.url(),
+        message,
+        timestamp: new Date().toISOString(),
+      };
+      await StorageService.saveSnapshot(session.id, snapshot.id, screenshot, html);
+      session.snapshots = [...(session.snapshots || []), snapshot];
+    } catch (error) {
+      console.error('Failed to capture snapshot:', error);
+    }
+  }
+
+  // Install the shared selector, field context, repeater, wizard and value tools in the page or one of
+  // its frames. tsx compiles with esbuild's keepNames, which wraps nested functions in a __name()
+  // helper that does not exist in the page.
+  private async installPageTools(target: Page | Frame) {
+    await target.evaluate(`
+      var __name = (fn) => fn;
+      window.__applicationatorSelectors = (${createSelectorTools.toString()})();
+      window.__applicationatorFieldContext = (${createFieldContextTools.toString()})();
+      window.__applicationatorRepeaters = (${createRepeaterTools.toString()})();
+      window.__applicationatorWizard = (${createWizardTools.toString()})();
+      window.__applicationatorValues = (${createValueTools.toString()})();
+    `);
+  }
+
+  // Fields of the page and of every frame in it; embedded job boards (Greenhouse embeds,
+  // iCIMS) put the whole form in an iframe
+  private async detectFormFields(page: Page): Promise<FormField[]> {
+    const fields = await this.detectFrameFields(page.mainFrame());
+
+    for (const frame of page.frames()) {
+      if (frame === page.mainFrame()) {
+        continue;
+      }
+      // Frames that are detached or still loading are passed over
+      const framePath = await this.framePathOf(frame).catch(() => null);
+      if (!framePath) {
+        continue;
+      }
+      const frameFields = await this.detectFrameFields(frame).catch(() => []);
+      fields.push(...frameFields.map((field) => ({ ...field, framePath })));
+    }
+
+    return fields;
+  }
+
+  private async detectFrameFields(frame: Frame): Promise<FormField[]> {
+    await this.installPageTools(frame);
+    return await frame.evaluate(() => {
+      const { buildUniqueSelector, resolveSelector, queryAllDeep } = window.__applicationatorSelectors!;
+      const { describeField } = window.__applicationatorFieldContext!;
+      const { repeaterOf } = window.__applicationatorRepeaters!;
+      const fields: FormField[] = [];
+      // Radio buttons and checkboxes sharing a name form one field with an option per input
+      const toggleGroups = new Map<string, FormField>();
+      // Design-system components keep their inputs in open shadow roots
+      const inputs = queryAllDeep('input, select, textarea');
+      
+      inputs.forEach((input) => {
+        const element = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+        // Hidden inputs and buttons carry no user data
+        if (element instanceof HTMLInputElement && ['hidden', 'submit', 'button', 'reset', 'image'].includes(element.type)) {
+          return;
+        }
+
+        const name = element.getAttribute('name') || 
+                    element.getAttribute('id') || 
+                    element.getAttribute('placeholder') || 
+                    'unknown';
+        
+        let type: FormField['type'] = 'text';
+        if (element.tagName === 'SELECT') {
+          type = 'select';
+        } else if (element.tagName === 'TEXTAREA') {
+          type = 'textarea';
+        } else if (element instanceof HTMLInputElement) {
+          type = (element.type || 'text') as FormField['type'];
+        }
+        // ARIA typeaheads, marked on the input or on its ARIA 1.1 wrapper, only take a suggestion
+        const autocomplete = element.getAttribute('aria-autocomplete');
+        if (type === 'text' && (element.closest('[role="combobox"]') || autocomplete === 'list' || autocomplete === 'both')) {
+          type = 'combobox';
+        }
+
+        // Skip elements that cannot be addressed unambiguously
+        const selector = buildUniqueSelector(element);
+        if (!selector) {
+          return;
+        }
+
+        const isToggle = type === 'checkbox' || type === 'radio';
+        const checked = isToggle && (element as HTMLInputElement).checked;
+
+        // Position within an "Add another" work history or education section
+        const match = repeaterOf(element);
+        const group = match && buildUniqueSelector(match.container);
+        const repeater: RepeaterPosition | undefined = group
+          ? {
+              group,
+              index: match.index,
+              addButton: (match.addButton && buildUniqueSelector(match.addButton)) || undefined,
+            }
+          : undefined;
+
+        const groupKey = isToggle && element.getAttribute('name') ? `${type}:${name}` : undefined;
+        const existing = groupKey ? toggleGroups.get(groupKey) : undefined;
+        const option = isToggle
+          ? { value: element.value, text: describeField(element).label || element.value, selector }
+          : undefined;
+
+        if (existing && option) {
+          existing.options!.push(option);
+          if (checked) {
+            existing.value = existing.value ? `${existing.value}, ${option.value}` : option.value;
+          }
+          existing.required = existing.required || element.hasAttribute('required');
+          // A second checkbox with the name turns a lone checkbox into a group, described by its question
+          if (existing.type === 'checkbox' && existing.options!.length === 2) {
+            const first = resolveSelector(existing.selector)!;
+            Object.assign(existing, describeField(first.closest('fieldset, [role="group"]') || first), {
+              label: undefined,
+            });
+          }
+          return;
+        }
+
+        const field: FormField = {
+          selector,
+          name,
+          type,
+          value: (isToggle ? checked && element.value : element.value) || undefined,
+          required: element.hasAttribute('required'),
+          ...describeField(element),
+          repeater,
+        };
+
+        if (element instanceof HTMLSelectElement) {
+          field.options = Array.from(element.options).map((o) => ({ value: o.value, text: o.text.trim() }));
+          field.locale = document.documentElement.lang || undefined;
+        }
+        const format =
+          element.getAttribute('data-mask') ||
+          element.getAttribute('data-inputmask-inputformat') ||
+          element.getAttribute('data-date-format');
+        if (format) {
+          field.format = format;
+        }
+        if (groupKey && option) {
+          field.options = [option];
+          if (type === 'radio') {
+            // A radio's own label names the option; the question is the group's legend or caption
+            Object.assign(field, describeField(element.closest('fieldset, [role="radiogroup"]') || element), {
+              label: undefined,
+            });
+          }
+          toggleGroups.set(groupKey, field);
+        }
+        fields.push(field);
+      });
+
+      // A lone checkbox is a yes/no field rather than a choice among options
+      toggleGroups.forEach((field) => {
+        if (field.type === 'checkbox' && field.options!.length === 1) {
+          delete field.options;
+        }
+      });
+
+      return fields;
+    });
+  }
+
+  // Selectors of the iframe elements leading from the top document to the frame
+  private async framePathOf(frame: Frame): Promise<string[] | null> {
+    const path: string[] = [];
+    for (let current = frame, parent = frame.parentFrame(); parent; current = parent, parent = parent.parentFrame()) {
+      const element = await current.frameElement();
+      if (!element) {
+        return null;
+      }
+      await this.installPageTools(parent);
+      const selector = await element.evaluate((el) => {
+        const { buildUniqueSelector } = window.__applicationatorSelectors!;
+        return buildUniqueSelector(el);
+      });
+      await element.dispose();
+      if (!selector) {
+        return null;
+      }
+      path.unshift(selector);
+    }
+    return path;
+  }
+
+  // Frame holding the field, found by following its frame path from the top document
+  private async frameOf(page: Page, field: Pick<FormField, 'framePath'>): Promise<Frame> {
+    let frame = page.mainFrame();
+    for (const selector of field.framePath || []) {
+      const element = await frame.$(selector);
+      const child = await element?.contentFrame();
+      await element?.dispose();
+      if (!child) {
+        throw new Error(`Frame ${selector} not found`);
+      }
+      frame = child;
+    }
+    return frame;
+  }
+
+  private async getFieldValue(field: FormField, profile: Profile, user: User | null): Promise<FieldValueResult> {
+    // Check learned mappings first, against the label, ARIA label, name and surrounding text
+    const descriptors = fieldDescriptors(field);
+    const mappings = await StorageService.getFieldMappings();
+    const mapping = descriptors
+      .map((d) => mappings.find((m: FieldMapping) => m.fieldName.toLowerCase() === d.toLowerCase()))
+      .find(Boolean) as FieldMapping | undefined;
+
+    // File inputs take a resume or cover letter document rather than a text value
+    if (field.type === 'file') {
+      return this.getDocumentValue(field, profile, user, mapping);
+    }
+
+    // Answers the user saved for recurring screening questions
+    const screeningAnswer = findScreeningAnswer(field, user?.screeningAnswers, profile.id);
+    if (screeningAnswer) {
+      return { value: screeningAnswer.answer, needsUserInput: false, source: 'answer_bank', confidence: ANSWER_BANK_CONFIDENCE };
+    }
+
+    if (mapping?.value) {
+      return { value: mapping.value, needsUserInput: false, source: 'learned_value', confidence: mapping.confidence ?? 1 };
+    }
+
+    if (mapping && mapping.fieldType !== FieldType.UNKNOWN) {
+      const value = profileValue(profile, user, mapping.fieldType);
+      if (value) {
+        return {
+          value,
+          needsUserInput: false,
+          suggestedType: mapping.fieldType,
+          source: 'learned_mapping',
+          confidence: mapping.confidence ?? 0.8,
+        };
+      }
+    }
+
+    // Try rule-based matching, most specific descriptor first
+    for (const descriptor of descriptors) {
+      const ruleBased = this.ruleBasedFieldMatch(descriptor, profile, user);
+      if (ruleBased.value) {
+        return { value: ruleBased.value, needsUserInput: false, suggestedType: ruleBased.type, source: 'rule', confidence: RULE_CONFIDENCE };
+      }
+    }
+
+    // Needs user input
+    return { needsUserInput: true, suggestedType: FieldType.UNKNOWN, source: 'none', confidence: 0 };
+  }
+
+  private async getDocumentValue(field: FormField, profile: Profile, user: User | null, mapping?: FieldMapping): Promise<FieldValueResult> {
+    const isDocumentType = (type?: FieldType) => type === FieldType.RESUME || type === FieldType.COVER_LETTER;
+    const fieldType = isDocumentType(mapping?.fieldType) ? mapping!.fieldType : this.documentTypeFor(fieldDescriptors(field));
+
+    if (fieldType) {
+      try {
+        const value = await ResumeService.resolveDocument(profile, user, fieldType);
+        if (value) {
+          return { value, needsUserInput: false, suggestedType: fieldType, source: 'document', confidence: DOCUMENT_CONFIDENCE };
         }
+      } catch (error: any) {
+        console.error(`Failed to prepare ${fieldType} for ${fieldKey(field)}:`, error.message);
+      }
+    }
+    return { needsUserInput: true, suggestedType: FieldType.UNKNOWN, source: 'none', confidence: 0 };
+  }
+
+  private documentTypeFor(descriptors: string[]): FieldType | undefined {
+    for (const descriptor of descriptors) {
+      const lower = descriptor.toLowerCase();
+      if (lower.includes('cover') && lower.includes('letter')) {
+        return FieldType.COVER_LETTER;
+      }
+      if (lower.includes('resume') || lower.includes('résumé') || /\bcv\b/.test(lower)) {
+        return FieldType.RESUME;
+      }
+    }
+    return undefined;
+  }
+
+  // Value for a field of a known type; file inputs resolve to a document path
+  private async valueForType(field: FormField, profile: Profile, user: User | null, fieldType: FieldType, entryIndex = 0): Promise<string | undefined> {
+    if (field.type === 'file') {
+      return ResumeService.resolveDocument(profile, user, fieldType);
+    }
+    return profileValue(profile, user, fieldType, entryIndex);
+  }
+
+  private ruleBasedFieldMatch(fieldName: string, profile: Profile, user: User | null): { value?: string; type: FieldType } {
+    const lower = fieldName.toLowerCase();
+    const personalInfo = user?.personalInfo;
+
+    if (!personalInfo) {
+      return { type: FieldType.UNKNOWN };
+    }
+
+    if (lower.includes('first') && lower.includes('name')) {
+      return { value: personalInfo.firstName, type: FieldType.FIRST_NAME };
+    }
+    if ((lower.includes('last') || lower.includes('surname')) && lower.includes('name')) {
+      return { value: personalInfo.lastName, type: FieldType.LAST_NAME };
+    }
+    if (lower.includes('email')) {
+      return { value: personalInfo.email, type: FieldType.EMAIL };
+    }
+    if (lower.includes('phone') || lower.includes('tel')) {
+      return { value: personalInfo.phone, type: FieldType.PHONE };
+    }
+    if (lower.includes('address') && lower.includes('street')) {
+      return { value: personalInfo.address.street, type: FieldType.ADDRESS_STREET };
+    }
+    if (lower.includes('city')) {
+      return { value: personalInfo.address.city, type: FieldType.ADDRESS_CITY };
+    }
+    if (lower.includes('state') && !lower.includes('address')) {
+      return { value: personalInfo.address.state, type: FieldType.ADDRESS_STATE };
+    }
+    if (lower.includes('zip') || lower.includes('postal')) {
+      return { value: personalInfo.address.zipCode, type: FieldType.ADDRESS_ZIP };
+    }
+
+    return { type: FieldType.UNKNOWN };
+  }
+
+  // Returns the text actually written, which differs from the value for dates and matched options
+  private async fillField(page: Page, session: AutomationSession, field: FormField, value: string): Promise<string> {
+    const selector = field.selector;
+    const frame = await this.frameOf(page, field);
+    const settings = interactionSettings(session.interactionProfile);
+    // Pause as a person would between fields; radios and checkboxes are approached when clicked
+    await sleep(fieldPause(settings));
+    if (field.type !== 'radio' && field.type !== 'checkbox') {
+      await this.approachField(frame, selector, settings);
+    }
+
+    switch (field.type) {
+      case 'select': {
+        // Month and year dropdowns take one part of a date value
+        const option = dateOption(field, value) || this.optionFor(field, value);
+        await frame.select(selector, option.value);
+        return option.value;
+      }
+      case 'date':
+      case 'month': {
+        // Typing into native date inputs follows the browser's locale, so set the ISO value directly
+        const text = formatDateForField(field, value) ?? value;
+        await this.setNativeValue(frame, selector, text);
+        return text;
+      }
+      case 'combobox':
+        return (await this.chooseSuggestion(frame, field, value, settings)).text;
+      case 'radio':
+        await this.clickElement(frame, this.optionFor(field, value).selector || selector, settings);
+        return value;
+      case 'checkbox':
+        if (field.options) {
+          // A checkbox group takes a comma-separated list of the choices to tick
+          for (const choice of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+            await this.setChecked(frame, this.optionFor(field, choice).selector!, true, settings);
+          }
+        } else {
+          await this.setChecked(frame, selector, isAffirmative(value), settings);
+        }
+        return value;
+      case 'file':
+        // The value is the local path of the document to upload
+        await this.uploadFile(frame, field, value);
+        return value;
+      default: {
+        const text = formatDateForField(field, value) ?? value;
+        // Typing appends, so clear any prefilled text first
+        await this.setNativeValue(frame, selector, '');
+        await this.typeText(frame, selector, text, settings);
+        return text;
+      }
+    }
+  }
+
+  // Bring the element into view and move the mouse onto it along a path rather than jumping
+  // straight there; returns the point the mouse ended on. Pacing is best effort, so an element
+  // that cannot be scrolled or measured (hidden file inputs) is left as it is.
+  private async approachElement(element: ElementHandle, settings: InteractionSettings): Promise<{ x: number; y: number } | undefined> {
+    try {
+      if (settings.scrollIntoView) {
+        await element.scrollIntoView();
+      }
+      // Bounding boxes are relative to the main frame, which is where the mouse lives
+      const box = settings.moveMouse ? await element.boundingBox() : null;
+      if (!box) {
+        return undefined;
+      }
+      const point = {
+        x: box.x + box.width * (0.3 + Math.random() * 0.4),
+        y: box.y + box.height * (0.3 + Math.random() * 0.4),
+      };
+      await element.frame.page().mouse.move(point.x, point.y, { steps: settings.mouseSteps });
+      return point;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async approachField(frame: Frame, selector: string, settings: InteractionSettings) {
+    if (!settings.scrollIntoView && !settings.moveMouse) {
+      return;
+    }
+    const element = await frame.$(selector);
+    if (element) {
+      await this.approachElement(element, settings);
+      await element.dispose();
+    }
+  }
+
+  // Every click the engine and site adapters make goes through here, so the pointer reaches the
+  // element the way the interaction profile describes and clicks where it arrived
+  private async clickElement(frame: Frame, target: string | ElementHandle, settings: InteractionSettings) {
+    const element = typeof target === 'string' ? await frame.$(target) : target;
+    if (!element) {
+      throw new Error(`No element found for selector: ${target}`);
+    }
+    try {
+      const point = await this.approachElement(element, settings);
+      if (point) {
+        await element.frame.page().mouse.click(point.x, point.y);
       } else {
-        // Check for submit button (last page)
-        const submitButton = await page.$('button[type="submit"], input[type="submit"]');
-        if (submitButton) {
-          session.currentStep = 'Form completed, ready to submit';
-          session.progress = 95;
+        await element.click();
+      }
+    } finally {
+      if (typeof target === 'string') {
+        await element.dispose();
+      }
+    }
+  }
+
+  // Type one key at a time, with the profile's cadence between keystrokes
+  private async typeText(frame: Frame, selector: string, text: string, settings: InteractionSettings) {
+    await frame.focus(selector);
+    const { keyboard } = frame.page();
+    for (const char of text) {
+      await keyboard.type(char);
+      await sleep(keystrokeDelay(settings));
+    }
+  }
+
+  // Set a value the way the page's framework expects (React ignores a plain value assignment)
+  private async setNativeValue(frame: Frame, selector: string, value: string) {
+    await this.installPageTools(frame);
+    await frame.$eval(
+      selector,
+      (el, value) => {
+        const { setNativeValue } = window.__applicationatorValues!;
+        setNativeValue(el, value);
+      },
+      value
+    );
+  }
+
+  // Read the field back and look for inline validation messages, recording any problem as a
+  // validation_error. The field stays counted as filled; the page may still reject the submission.
+  private async verifyField(page: Page, session: AutomationSession, field: FormField, written: string) {
+    const frame = await this.frameOf(page, field).catch(() => page.mainFrame());
+    await this.installPageTools(frame);
+    const result = await frame
+      .evaluate(
+        async (selector: string, settleMs: number) => {
+          const { resolveSelector } = window.__applicationatorSelectors!;
+          const element = resolveSelector(selector) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
+          if (!element) {
+            return { messages: [] as string[] };
+          }
+
+          // Most forms validate when the field loses focus
+          element.blur();
+          await new Promise((resolve) => setTimeout(resolve, settleMs));
+
+          const messages: string[] = [];
+          if (element.getAttribute('aria-invalid') === 'true') {
+            const ids = `${element.getAttribute('aria-errormessage') || ''} ${element.getAttribute('aria-describedby') || ''}`;
+            const described = ids
+              .split(/\s+/)
+              .map((id) => (id ? (element.getRootNode() as Document | ShadowRoot).getElementById?.(id)?.textContent?.trim() : ''))
+              .filter(Boolean)
+              .join(' ');
+            messages.push(described || 'Marked invalid by the page');
+          }
+          if (element.willValidate && !element.validity.valid && element.validationMessage) {
+            messages.push(element.validationMessage);
+          }
+
+          // Error text rendered beside the field, without climbing into a neighbouring field's wrapper
+          const name = element.getAttribute('name');
+          let container = element.parentElement;
+          for (let depth = 0; container && depth < 3; depth++) {
+            const others = Array.from(container.querySelectorAll('input:not([type="hidden"]), select, textarea')).some(
+              (other) => other !== element && (!name || other.getAttribute('name') !== name)
+            );
+            if (others) {
+              break;
+            }
+            const error = Array.from(
+              container.querySelectorAll<HTMLElement>(
+                '[role="alert"], .error, .errors, .invalid-feedback, .field-error, .error-message, [class*="errorMessage"], [class*="error-text"]'
+              )
+            ).find((candidate) => candidate !== element && candidate.offsetParent !== null && candidate.textContent?.trim());
+            if (error) {
+              messages.push(error.textContent!.replace(/\s+/g, ' ').trim());
+              break;
+            }
+            container = container.parentElement;
+          }
+
+          return { messages, actual: element.value };
+        },
+        field.selector,
+        VALIDATION_SETTLE_MS
+      )
+      .catch(() => ({ messages: [] as string[], actual: undefined }));
+
+    const messages = [...new Set(result.messages)];
+    // Masks reformat input ("5551234567" -> "(555) 123-4567"), so compare letters and digits only
+    const comparable = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+    // Typeaheads often clear their input once a suggestion is picked and show it elsewhere
+    const readBack = !['checkbox', 'radio', 'file', 'combobox'].includes(field.type) && result.actual !== undefined;
+    if (readBack && comparable(result.actual!) !== comparable(written)) {
+      messages.push(result.actual ? `Page shows "${result.actual}" instead of "${written}"` : 'Value was not accepted');
+    }
+    if (messages.length === 0) {
+      return;
+    }
+
+    const message = messages.join('; ');
+    session.errors.push({
+      type: 'validation_error',
+      message: `${fieldKey(field)}: ${message}`,
+      fieldName: fieldKey(field),
+      timestamp: new Date().toISOString(),
+    });
+    this.emitFieldEvent(session, 'invalid', field, { message });
+    await this.captureSnapshot(page, session, 'error', `Validating ${fieldKey(field)}`, message);
+  }
+
+  // Fields built by site adapters carry no options and are filled with the value as given
+  private optionFor(field: FormField, value: string): FieldOption {
+    if (!field.options) {
+      return { value, text: value };
+    }
+    const option = matchOption(field.options, value);
+    if (!option) {
+      throw new NoMatchingOptionError(`No option matching "${value}"`);
+    }
+    return option;
+  }
+
+  // Type the value into a typeahead and pick the suggestion that best matches it. Typeaheads
+  // searching a short name often find nothing for "Austin, TX, USA", so the part before the
+  // first comma is tried next.
+  private async chooseSuggestion(frame: Frame, field: FormField, value: string, settings: InteractionSettings): Promise<FieldOption> {
+    await this.installPageTools(frame);
+    const queries = [...new Set([value, value.split(',')[0]].map((query) => query.trim()).filter(Boolean))];
+    let suggestions: FieldOption[] = [];
+
+    for (const query of queries) {
+      await this.setNativeValue(frame, field.selector, '');
+      await this.typeText(frame, field.selector, query, settings);
+      // Let the widget fetch and render suggestions for the whole query, not its first letters
+      await frame
+        .waitForFunction(
+          (selector: string) => {
+            const { resolveSelector } = window.__applicationatorSelectors!;
+            const element = resolveSelector(selector);
+            const { listSuggestions } = window.__applicationatorValues!;
+            return !!element && listSuggestions(element).length > 0;
+          },
+          { timeout: SUGGESTION_TIMEOUT_MS, polling: STEP_POLL_MS },
+          field.selector
+        )
+        .catch(() => {});
+      await frame.page().waitForNetworkIdle({ idleTime: 300, timeout: SUGGESTION_TIMEOUT_MS }).catch(() => {});
+
+      const texts = await frame.$eval(field.selector, (el) => {
+        const { listSuggestions } = window.__applicationatorValues!;
+        return listSuggestions(el);
+      });
+      suggestions = texts.map((text) => ({ value: text, text }));
+      const option = matchOption(suggestions, value);
+      if (option) {
+        const picked = await frame.$eval(
+          field.selector,
+          (el, text) => {
+            const { pickSuggestion } = window.__applicationatorValues!;
+            return pickSuggestion(el, text);
+          },
+          option.text
+        );
+        if (picked) {
+          return option;
+        }
+      }
+    }
+
+    // Kept on the field so the unmapped-field prompt can offer them
+    field.options = suggestions.length > 0 ? suggestions : undefined;
+    throw new NoMatchingOptionError(`No suggestion matching "${value}"`);
+  }
+
+  // Click only when the checkbox is not already in the wanted state
+  private async setChecked(frame: Frame, selector: string, checked: boolean, settings: InteractionSettings) {
+    const current = await frame.$eval(selector, (el) => (el as HTMLInputElement).checked);
+    if (current !== checked) {
+      await this.clickElement(frame, selector, settings);
+    }
+  }
+
+  // Pause the session until the user has answered every unmapped field, then fill the answers
+  private async promptForUnmappedFields(page: Page, session: AutomationSession, fields: FormField[], profile: Profile, user: User | null) {
+    session.status = 'paused';
+    session.currentStep = `Waiting for user input on ${fields.length} unmapped fields`;
+    session.pendingFields = [...fields];
+    this.publishSession(session);
+
+    const answers = await new Promise<PendingFieldAnswer[]>((resolve) => {
+      this.pendingPrompts.set(session.id, { answers: [], resolve });
+    });
+    this.pendingPrompts.delete(session.id);
+    session.pendingFields = [];
+
+    // Session was stopped while waiting
+    if (session.status !== 'paused') {
+      this.checkCancelled(session);
+      return;
+    }
+    session.status = 'running';
+    session.currentStep = 'Filling fields from user input';
+    this.publishSession(session);
+
+    for (const field of fields) {
+      const answer = answers.find((a) => fieldLocation(a) === fieldLocation(field));
+      if (!answer || answer.skip) {
+        session.errors.push({
+          type: 'field_unmapped',
+          message: `Skipped unmapped field ${fieldKey(field)}`,
+          fieldName: fieldKey(field),
+          timestamp: new Date().toISOString(),
+        });
+        this.emitFieldEvent(session, 'skipped', field);
+        continue;
+      }
+
+      const hasType = answer.fieldType && answer.fieldType !== FieldType.UNKNOWN;
+      const typedValue = hasType
+        ? await this.valueForType(field, profile, user, answer.fieldType!).catch(() => undefined)
+        : undefined;
+      const value = typedValue || answer.value;
+      if (!value) {
+        session.errors.push({
+          type: 'field_unmapped',
+          message: `No value available for ${fieldKey(field)}`,
+          fieldName: fieldKey(field),
+          timestamp: new Date().toISOString(),
+        });
+        this.emitFieldEvent(session, 'skipped', field, { message: 'No value available' });
+        continue;
+      }
+
+      this.emitFieldEvent(session, 'matched', field, { fieldType: answer.fieldType });
+      try {
+        const written = await this.fillField(page, session, field, value);
+        this.emitFieldEvent(session, 'filled', field, { fieldType: answer.fieldType });
+        await this.verifyField(page, session, field, written);
+        if (hasType) {
+          await this.learnFieldMapping(fieldKey(field), answer.fieldType!);
+        } else {
+          await this.learnFieldValue(fieldKey(field), value);
+        }
+      } catch (error: any) {
+        await this.recordFillFailure(page, session, field, error);
+      }
+    }
+  }
+
+  private emitFieldEvent(
+    session: AutomationSession,
+    type: AutomationFieldEvent['type'],
+    field: FormField,
+    details: Pick<AutomationFieldEvent, 'fieldType' | 'message'> = {}
+  ) {
+    const event: AutomationFieldEvent = {
+      type,
+      fieldName: fieldKey(field),
+      selector: field.selector,
+      framePath: field.framePath,
+      ...details,
+      timestamp: new Date().toISOString(),
+    };
+    const events = this.sessionEvents.get(session.id) || [];
+    events.push(event);
+    this.sessionEvents.set(session.id, events);
+    this.emitter.emit(session.id, 'field', event);
+  }
+
+  private publishSession(session: AutomationSession) {
+    this.emitter.emit(session.id, 'session', session);
+    if (this.persistedStatus.get(session.id) !== session.status) {
+      this.persistSession(session);
+      // A form left for the user to submit, or declined at review, was never sent
+      if (session.status === 'completed' && session.submitted) {
+        this.recordApplication(session).catch((error) => console.error('Failed to record application:', error));
+      }
+    }
+  }
+
+  // Company and role for the application tracker, from the posting's metadata and heading
+  private async describePosting(page: Page, url?: string): Promise<JobPosting> {
+    const posting: JobPosting = await page
+      .evaluate(() => {
+        const siteName = document.querySelector('meta[property="og:site_name"]')?.getAttribute('content')?.trim();
+        const title = document.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim();
+        const heading = document.querySelector('h1')?.textContent?.replace(/\s+/g, ' ').trim();
+        return { company: siteName || undefined, role: title || heading || document.title.trim() || undefined };
+      })
+      .catch(() => ({}));
+    return { ...posting, company: posting.company || this.companyFromUrl(url) };
+  }
+
+  // ATS-hosted postings name the company in the path or subdomain rather than the host
+  private companyFromUrl(url?: string): string | undefined {
+    if (!url) {
+      return undefined;
+    }
+    try {
+      const { hostname, pathname } = new URL(url);
+      const firstSegment = pathname.split('/').filter(Boolean)[0];
+      if (/(greenhouse\.io|lever\.co)$/i.test(hostname) && firstSegment) {
+        return firstSegment;
+      }
+      if (/myworkday(jobs|site)\.com$/i.test(hostname)) {
+        return hostname.split('.')[0];
+      }
+      return hostname.replace(/^www\./, '');
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Add a submitted session to the application tracker, once per session
+  private async recordApplication(session: AutomationSession) {
+    const posting = this.postings.get(session.id) || {};
+    this.postings.delete(session.id);
+
+    const applications: Application[] = await StorageService.getAllApplications();
+    if (applications.some((application) => application.sessionId === session.id)) {
+      return;
+    }
+
+    const profile: Profile | null = await StorageService.getProfile(session.profileId);
+    const now = new Date().toISOString();
+    const application: Application = {
+      id: uuidv4(),
+      company: posting.company || 'Unknown company',
+      role: posting.role || 'Unknown role',
+      url: session.url,
+      profileId: session.profileId,
+      resumeVersion: profile
+        ? profile.resumeFile?.fileName || `Generated from ${profile.name} (updated ${profile.updatedAt})`
+        : undefined,
+      sessionId: session.id,
+      appliedAt: session.completedAt || now,
+      stage: 'applied',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await StorageService.saveApplication(application);
+  }
+
+  // Save the session to the history whenever its status changes; writes are queued per session
+  // so a slow write never overwrites a later status
+  private persistSession(session: AutomationSession) {
+    this.persistedStatus.set(session.id, session.status);
+    const previous = this.persistQueue.get(session.id) || Promise.resolve();
+    const next = previous
+      .then(() => StorageService.saveSession(this.buildSessionRecord(session)))
+      .then(() => {})
+      .catch((error) => console.error('Failed to save session history:', error));
+    this.persistQueue.set(session.id, next);
+    next.finally(() => {
+      if (this.persistQueue.get(session.id) === next) {
+        this.persistQueue.delete(session.id);
+      }
+    });
+  }
+
+  private buildSessionRecord(session: AutomationSession): AutomationSessionRecord {
+    const events = this.sessionEvents.get(session.id) || [];
+    session.fieldSummary = this.summarizeFields(events);
+    const { pendingFields, ...record } = session;
+    return { ...record, profileName: this.profileNames.get(session.profileId), events: [...events] };
+  }
+
+  private summarizeFields(events: AutomationFieldEvent[]): SessionFieldSummary {
+    const count = (type: AutomationFieldEvent['type']) =>
+      new Set(events.filter((event) => event.type === type).map((event) => event.selector)).size;
+    return {
+      detected: count('detected'),
+      filled: count('filled'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      invalid: count('invalid'),
+    };
+  }
+
+  // Sessions that were running when the server stopped can never finish
+  private markInterrupted<T extends AutomationSession>(session: T): T {
+    if (this.activeSessions.has(session.id) || (session.status !== 'running' && session.status !== 'paused')) {
+      return session;
+    }
+    return {
+      ...session,
+      status: 'error',
+      errors: [
+        ...session.errors,
+        { type: 'other', message: 'Interrupted by a server restart', timestamp: session.startedAt || new Date().toISOString() },
+      ],
+    };
+  }
+
+  // Application history, newest first, without the field timelines
+  async listSessions(): Promise<AutomationSession[]> {
+    const records: AutomationSessionRecord[] = await StorageService.getAllSessions();
+    return records
+      .map(({ events, ...session }) => this.markInterrupted(this.activeSessions.get(session.id) || session))
+      .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''));
+  }
+
+  async getSessionRecord(id: string): Promise<AutomationSessionRecord | null> {
+    const session = this.activeSessions.get(id);
+    if (session) {
+      return this.buildSessionRecord(session);
+    }
+    const record: AutomationSessionRecord | null = await StorageService.getSession(id);
+    return record ? this.markInterrupted(record) : null;
+  }
+
+  // Replay past field events to the listener, then stream new ones until unsubscribed
+  subscribe(id: string, listener: SessionStreamListener): (() => void) | null {
+    const session = this.activeSessions.get(id);
+    if (!session) {
+      return null;
+    }
+
+    for (const event of this.sessionEvents.get(id) || []) {
+      listener('field', event);
+    }
+    listener('session', session);
+
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  private async uploadFile(frame: Frame, field: FormField, filePath: string) {
+    const input = (await frame.$(field.selector)) as ElementHandle<HTMLInputElement> | null;
+    if (!input) {
+      throw new Error(`File input ${field.selector} not found`);
+    }
+    await input.uploadFile(filePath);
+  }
+
+  // Live session, or its last saved state from the history
+  async getSession(id: string): Promise<AutomationSession | null> {
+    const active = this.activeSessions.get(id);
+    if (active) {
+      return active;
+    }
+    const record = await this.getSessionRecord(id);
+    if (!record) {
+      return null;
+    }
+    const { events, ...session } = record;
+    return session;
+  }
+
+  hasActiveSession(id: string): boolean {
+    return this.activeSessions.has(id);
+  }
+
+  async getPendingFields(id: string): Promise<FormField[] | null> {
+    const session = this.activeSessions.get(id);
+    if (!session) {
+      return null;
+    }
+    return session.pendingFields || [];
+  }
+
+  async getPlan(id: string): Promise<FieldPlanEntry[] | null> {
+    const session = this.activeSessions.get(id);
+    if (!session) {
+      return null;
+    }
+    return session.plan || [];
+  }
+
+  // Approve a dry run's plan; the session fills it with the given overrides
+  async applyPlan(id: string, overrides: PendingFieldAnswer[] = []): Promise<AutomationSession> {
+    const session = this.activeSessions.get(id);
+    const resolve = this.pendingPlans.get(id);
+    if (!session || !resolve) {
+      throw new SessionStateError('Session has no plan awaiting review');
+    }
+    resolve(overrides);
+    return session;
+  }
+
+  // Answer a session paused for final review: submit the application or leave it unsubmitted
+  async approveSubmit(id: string, approved: boolean): Promise<AutomationSession> {
+    const session = this.activeSessions.get(id);
+    const resolve = this.pendingSubmits.get(id);
+    if (!session || !resolve) {
+      throw new SessionStateError('Session is not waiting for submit approval');
+    }
+    resolve(approved);
+    return session;
+  }
+
+  async answerPendingField(id: string, answer: PendingFieldAnswer): Promise<FormField[]> {
+    const session = this.activeSessions.get(id);
+    const prompt = this.pendingPrompts.get(id);
+    if (!session || !prompt) {
+      throw new SessionStateError('Session is not waiting for user input');
+    }
+    if (!session.pendingFields?.some((f) => fieldLocation(f) === fieldLocation(answer))) {
+      throw new SessionStateError('Field is not pending');
+    }
+
+    prompt.answers.push(answer);
+    session.pendingFields = session.pendingFields.filter((f) => fieldLocation(f) !== fieldLocation(answer));
+    session.currentStep = `Waiting for user input on ${session.pendingFields.length} unmapped fields`;
+    this.publishSession(session);
+
+    // Resume the automation once every pending field has an answer
+    if (session.pendingFields.length === 0) {
+      prompt.resolve(prompt.answers);
+    }
+    return session.pendingFields;
+  }
+
+  // Abort the session's automation loop and close its browser context
+  async stopSession(id: string): Promise<void> {
+    await this.releaseSession(id, 'idle', 'Session was stopped');
+  }
+
+  // Abort the automation loop, move a running or paused session to the given status and close
+  // its browser context; an error status records the reason
+  private async releaseSession(
+    id: string,
+    status: 'idle' | 'error',
+    reason: string,
+    runtime = this.runtimes.get(id)
+  ): Promise<void> {
+    const session = this.activeSessions.get(id);
+    runtime?.controller.abort(new Error(reason));
+    if (session && (session.status === 'running' || session.status === 'paused')) {
+      session.status = status;
+      if (status === 'error') {
+        session.errors.push({ type: 'other', message: reason, timestamp: new Date().toISOString() });
+      }
+      this.publishSession(session);
+    }
+    // Release a session that is paused waiting for user input, plan review or submit approval
+    this.pendingPrompts.get(id)?.resolve([]);
+    this.pendingPlans.get(id)?.(null);
+    this.pendingSubmits.get(id)?.(false);
+    await this.disposeSession(id, runtime);
+  }
+
+  private async learnFieldMapping(fieldName: string, fieldType: FieldType) {
+    const mappings = await StorageService.getFieldMappings();
+    const existing = mappings.find((m: FieldMapping) => m.fieldName === fieldName);
+    
+    if (!existing) {
+      mappings.push({
+        fieldName,
+        fieldType,
+        learnedAt: new Date().toISOString(),
+        confidence: 0.8,
+      });
+      await StorageService.saveFieldMappings(mappings);
+    }
+  }
+
+  private async learnFieldValue(fieldName: string, value: string) {
+    const mappings = await StorageService.getFieldMappings();
+    const existing = mappings.find((m: FieldMapping) => m.fieldName === fieldName);
+
+    if (existing) {
+      existing.value = value;
+    } else {
+      mappings.push({
+        fieldName,
+        fieldType: FieldType.UNKNOWN,
+        value,
+        learnedAt: new Date().toISOString(),
+        confidence: 1.0,
+      });
+    }
+    await StorageService.saveFieldMappings(mappings);
+  }
+
+  private async detectMultiPageForm(page: Page): Promise<boolean> {
+    // Check for pagination indicators
+    await this.installPageTools(page);
+    const indicators = await page.evaluate(() => {
+      const { findNextButton } = window.__applicationatorWizard!;
+      const text = document.body.textContent?.toLowerCase() || '';
+      const hasStepIndicator = /step \d+ of \d+|page \d+ of \d+|\d+ of \d+/.test(text);
+      const hasProgressBar = document.querySelector('progress, [role="progressbar"], .progress');
+      return hasStepIndicator || !!hasProgressBar || !!findNextButton();
+    });
+    return indicators;
+  }
+
+  // Apply the session's submit policy once the form is filled: leave submitting to the user,
+  // pause on a final review of the filled values until approved, or submit straight away
+  private async submitForm(page: Page, session: AutomationSession) {
+    const submitButton = await this.findSubmitButton(page, session);
+    if (!submitButton) {
+      return;
+    }
+    const policy = session.submitPolicy || 'never';
+    if (policy === 'never') {
+      session.currentStep = 'Form completed, ready to submit';
+      session.progress = 95;
+      return;
+    }
+
+    if (policy === 'ask') {
+      session.review = await this.readFilledValues(page, session);
+      session.status = 'paused';
+      session.currentStep = 'Waiting for approval to submit';
+      session.progress = 95;
+      this.publishSession(session);
+
+      const approved = await new Promise<boolean>((resolve) => {
+        this.pendingSubmits.set(session.id, resolve);
+      });
+      this.pendingSubmits.delete(session.id);
+      session.review = undefined;
+
+      // Session was stopped during review
+      if (session.status !== 'paused') {
+        this.checkCancelled(session);
+        return;
+      }
+      session.status = 'running';
+      if (!approved) {
+        session.currentStep = 'Submission declined; the form was left unsubmitted';
+        this.publishSession(session);
+        return;
+      }
+    }
+
+    session.currentStep = 'Submitting application';
+    this.publishSession(session);
+    await Promise.all([
+      submitButton.frame.waitForNavigation({ waitUntil: 'networkidle2', timeout: 15000 }).catch(() => {}),
+      this.clickElement(submitButton.frame, submitButton.selector, interactionSettings(session.interactionProfile)),
+    ]);
+    session.submitted = true;
+    session.currentStep = 'Application submitted';
+    await this.captureSnapshot(page, session, 'page', 'After submit');
+  }
+
+  // The visible button that submits the application: labelled as such or explicitly
+  // type="submit", preferring one that belongs to the form the session filled. "Apply with
+  // LinkedIn" and other third-party sign-in buttons are never taken for it. The top document
+  // and every frame that held a filled field are searched.
+  private async findSubmitButton(page: Page, session: AutomationSession): Promise<{ frame: Frame; selector: string } | null> {
+    const filledByFrame = new Map<string, AutomationFieldEvent[]>([['', []]]);
+    for (const event of this.sessionEvents.get(session.id) || []) {
+      if (event.type === 'filled') {
+        const key = (event.framePath || []).join('\n');
+        filledByFrame.set(key, [...(filledByFrame.get(key) || []), event]);
+      }
+    }
+
+    let best: { frame: Frame; selector: string; rank: number } | null = null;
+    for (const [key, events] of filledByFrame) {
+      const frame = await this.frameOf(page, { framePath: key ? key.split('\n') : undefined }).catch(() => null);
+      const found = frame && (await this.findFrameSubmitButton(frame, events.map((event) => event.selector)).catch(() => null));
+      if (frame && found && (!best || found.rank > best.rank)) {
+        best = { frame, ...found };
+      }
+    }
+    return best && { frame: best.frame, selector: best.selector };
+  }
+
+  // Best submit button of one frame, with its rank so frames can be compared
+  private async findFrameSubmitButton(frame: Frame, filledSelectors: string[]): Promise<{ selector: string; rank: number } | null> {
+    await this.installPageTools(frame);
+    return await frame.evaluate((filledSelectors: string[]) => {
+      const { buildUniqueSelector, resolveSelector } = window.__applicationatorSelectors!;
+      const text = (btn: HTMLElement) => (btn.textContent || (btn as HTMLInputElement).value || '').replace(/\s+/g, ' ').trim();
+      const thirdParty = /\b(apply|sign in|sign up|log ?in|continue|connect) (with|using|via)\b|\b(linkedin|indeed|google|facebook|apple|github|glassdoor)\b/i;
+      const buttons = Array.from(
+        document.querySelectorAll<HTMLElement>('button, input[type="submit"], input[type="button"]')
+      ).filter((btn) => btn.offsetParent !== null && !(btn as HTMLButtonElement).disabled && !thirdParty.test(text(btn)));
+
+      // A <button> without a type attribute reports type "submit", so read the attribute itself
+      const isSubmit = (btn: HTMLElement) => btn.getAttribute('type')?.toLowerCase() === 'submit';
+      const isLabelled = (btn: HTMLElement) => /\b(submit|apply|send application|finish)\b/i.test(text(btn));
+      const forms = new Set(filledSelectors.map((selector) => resolveSelector(selector)?.closest('form')).filter(Boolean));
+      const inFilledForm = (btn: HTMLElement) => forms.has((btn as HTMLButtonElement).form);
+
+      const submits = buttons.filter(isSubmit);
+      const candidates = buttons.filter(
+        (btn) => isLabelled(btn) || (isSubmit(btn) && (inFilledForm(btn) || submits.length === 1))
+      );
+      const rank = (btn: HTMLElement) => (inFilledForm(btn) ? 4 : 0) + (isLabelled(btn) ? 2 : 0) + (isSubmit(btn) ? 1 : 0);
+      const button = candidates.sort((a, b) => rank(b) - rank(a))[0];
+      const selector = button && buildUniqueSelector(button);
+      return selector ? { selector, rank: rank(button) } : null;
+    }, filledSelectors);
+  }
+
+  // Current page values of every field the session filled, for the final review
+  private async readFilledValues(page: Page, session: AutomationSession): Promise<ReviewField[]> {
+    // Latest event per field, grouped by the frame holding it so each frame is read once
+    const filled = new Map<string, AutomationFieldEvent>();
+    for (const event of this.sessionEvents.get(session.id) || []) {
+      if (event.type === 'filled') {
+        filled.set(fieldLocation(event), event);
+      }
+    }
+    const byFrame = new Map<string, AutomationFieldEvent[]>();
+    for (const event of filled.values()) {
+      const key = (event.framePath || []).join('\n');
+      byFrame.set(key, [...(byFrame.get(key) || []), event]);
+    }
+
+    const review: ReviewField[] = [];
+    for (const events of byFrame.values()) {
+      const frame = await this.frameOf(page, events[0]).catch(() => null);
+      const values = frame
+        ? await this.readFrameValues(frame, events.map((event) => event.selector)).catch(() => [] as (string | undefined)[])
+        : [];
+      events.forEach((event, i) => review.push({ fieldName: event.fieldName, selector: event.selector, framePath: event.framePath, value: values[i] }));
+    }
+    return review;
+  }
+
+  private async readFrameValues(frame: Frame, selectors: string[]): Promise<(string | undefined)[]> {
+    await this.installPageTools(frame);
+    return frame.evaluate((selectors: string[]) => {
+      const { resolveSelector } = window.__applicationatorSelectors!;
+      return selectors.map((selector) => {
+        const element = resolveSelector(selector) as HTMLInputElement | HTMLSelectElement | null;
+        if (!element) {
+          return undefined;
+        }
+        if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+          // Radio and checkbox groups report the labels of the chosen options
+          const root = element.getRootNode() as Document | ShadowRoot;
+          const group = element.name
+            ? Array.from(root.querySelectorAll(`input[name="${CSS.escape(element.name)}"]`)) as HTMLInputElement[]
+            : [element];
+          if (group.length === 1) {
+            return element.checked ? 'Checked' : 'Not checked';
+          }
+          return group
+            .filter((input) => input.checked)
+            .map((input) => input.labels?.[0]?.textContent?.trim() || input.value)
+            .join(', ');
+        }
+        if (element instanceof HTMLInputElement && element.type === 'file') {
+          return Array.from(element.files || []).map((file) => file.name).join(', ');
         }
-        hasNext = false;
+        if (element instanceof HTMLSelectElement) {
+          return element.selectedOptions[0]?.text.trim();
+        }
+        return element.value;
+      });
+    }, selectors);
+  }
+
+  // Multi-page form handling. Steps are told apart by a signature of the URL, step indicator,
+  // headings and field names, so wizards that swap steps in place are handled like page loads.
+  async handleMultiPageForm(page: Page, session: AutomationSession, profile: Profile, user: User | null) {
+    const visited = new Set<string>();
+    let currentPage = 1;
+    let reachedLastPage = false;
+
+    while (currentPage <= MAX_FORM_PAGES) {
+      this.checkCancelled(session);
+      session.currentStep = `Processing page ${currentPage}`;
+      session.progress = Math.min(10 + (currentPage / MAX_FORM_PAGES) * 80, 90);
+      this.publishSession(session);
+      
+      // Wait for page to be ready
+      await page.waitForSelector('input, select, textarea', { timeout: 5000 }).catch(() => {});
+      
+      // Detect and fill fields on current page
+      const fields = await this.detectFormFields(page);
+      const unmappedFields = await this.fillFields(page, session, fields, profile, user);
+
+      if (unmappedFields.length > 0) {
+        await this.promptForUnmappedFields(page, session, unmappedFields, profile, user);
       }
+      this.checkCancelled(session);
+
+      await this.installPageTools(page);
+      const nextButton = await page.evaluate(() => {
+        const { buildUniqueSelector } = window.__applicationatorSelectors!;
+        const { findNextButton } = window.__applicationatorWizard!;
+        const button = findNextButton();
+        return button ? buildUniqueSelector(button) : null;
+      });
+      await this.captureSnapshot(page, session, 'page', `Page ${currentPage}`);
+
+      if (!nextButton) {
+        // Last page: its submit button is left to the submit policy
+        await this.submitForm(page, session);
+        reachedLastPage = true;
+        break;
+      }
+
+      const before = await this.pageSignature(page);
+      visited.add(before);
+      let advanced: boolean;
+      try {
+        advanced = await this.advanceStep(page, session, nextButton, before);
+      } catch (error: any) {
+        await this.recordNavigationError(page, session, currentPage, `Failed to navigate to next page: ${error.message}`);
+        break;
+      }
+
+      // The form stayed on the same step, usually because it rejected a value
+      if (!advanced) {
+        await this.installPageTools(page);
+        const messages = await page
+          .evaluate(() => window.__applicationatorWizard!.visibleErrors())
+          .catch(() => [] as string[]);
+        await this.recordNavigationError(
+          page,
+          session,
+          currentPage,
+          `Page ${currentPage} did not advance` + (messages.length > 0 ? `: ${messages.join('; ')}` : '')
+        );
+        break;
+      }
+
+      if (visited.has(await this.pageSignature(page))) {
+        await this.recordNavigationError(page, session, currentPage + 1, `Page ${currentPage + 1} repeats an earlier page; stopping to avoid a loop`);
+        break;
+      }
+      currentPage++;
+    }
+
+    if (currentPage > MAX_FORM_PAGES) {
+      session.errors.push({
+        type: 'navigation_error',
+        message: `Stopped after ${MAX_FORM_PAGES} pages`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // A form left part way through was not applied to; the navigation error says why
+    if (!reachedLastPage) {
+      session.status = 'error';
+      this.publishSession(session);
+      return;
     }
 
     session.progress = 100;
     session.status = 'completed';
     session.completedAt = new Date().toISOString();
+    this.publishSession(session);
+  }
+
+  private async pageSignature(page: Page): Promise<string> {
+    await this.installPageTools(page);
+    return await page.evaluate(() => window.__applicationatorWizard!.pageSignature());
+  }
+
+  // Click a step's next button and wait for either a new document or an in-place step change;
+  // returns false when the step is still on screen once the timeout passes
+  private async advanceStep(page: Page, session: AutomationSession, selector: string, before: string): Promise<boolean> {
+    await this.clickElement(page.mainFrame(), selector, interactionSettings(session.interactionProfile));
+    const advanced = await page
+      .waitForFunction(
+        (previous: string) => {
+          const wizard = window.__applicationatorWizard;
+          // A newly loaded document has no tools installed yet
+          return !wizard || wizard.pageSignature() !== previous;
+        },
+        { timeout: STEP_TIMEOUT_MS, polling: STEP_POLL_MS },
+        before
+      )
+      .then(
+        () => true,
+        () => false
+      );
+
+    if (advanced) {
+      // Let the new step finish loading its fields
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: STEP_TIMEOUT_MS }).catch(() => {});
+    }
+    return advanced;
+  }
+
+  private async recordNavigationError(page: Page, session: AutomationSession, currentPage: number, message: string) {
+    session.errors.push({
+      type: 'navigation_error',
+      message,
+      timestamp: new Date().toISOString(),
+    });
+    await this.captureSnapshot(page, session, 'error', `Leaving page ${currentPage}`, message);
   }
 }
 
@@ -0,0 +1,49 @@
+import { INTERACTION_PROFILES } from '../../../shared/types.js';
+import type { InteractionProfile } from '../../../shared/types.js';
+
+// How the engine paces its input for one interaction profile
+export interface InteractionSettings {
+  // Mean delay between keystrokes, and how far each delay may stray from it either way
+  typingDelayMs: number;
+  typingJitterMs: number;
+  // Range of the pause taken before moving on to the next field
+  fieldPauseMs: [number, number];
+  // Scroll the field into view and move the mouse onto it before touching it
+  scrollIntoView: boolean;
+  moveMouse: boolean;
+  // Intermediate mouse positions between the current point and the field
+  mouseSteps: number;
+}
+
+const INTERACTION_SETTINGS: Record<InteractionProfile, InteractionSettings> = {
+  // The original behaviour: steady typing, no pauses
+  fast: { typingDelayMs: 50, typingJitterMs: 0, fieldPauseMs: [0, 0], scrollIntoView: false, moveMouse: false, mouseSteps: 1 },
+  human: { typingDelayMs: 90, typingJitterMs: 60, fieldPauseMs: [400, 1200], scrollIntoView: true, moveMouse: true, mouseSteps: 12 },
+  // For boards that still flag the human profile; roughly doubles the time of an application
+  cautious: { typingDelayMs: 150, typingJitterMs: 100, fieldPauseMs: [1500, 4000], scrollIntoView: true, moveMouse: true, mouseSteps: 25 },
+};
+
+// Used when neither the session nor its site adapter picks a profile; set in backend/.env
+export const DEFAULT_INTERACTION_PROFILE: InteractionProfile = isInteractionProfile(process.env.AUTOMATION_INTERACTION_PROFILE)
+  ? process.env.AUTOMATION_INTERACTION_PROFILE
+  : 'fast';
+
+function isInteractionProfile(value: unknown): value is InteractionProfile {
+  return INTERACTION_PROFILES.includes(value as InteractionProfile);
+}
+
+export function interactionSettings(profile: InteractionProfile = DEFAULT_INTERACTION_PROFILE): InteractionSettings {
+  return INTERACTION_SETTINGS[profile];
+}
+
+function randomBetween(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+export function keystrokeDelay(settings: InteractionSettings): number {
+  return Math.max(0, Math.round(randomBetween(settings.typingDelayMs - settings.typingJitterMs, settings.typingDelayMs + settings.typingJitterMs)));
+}
+
+export function fieldPause(settings: InteractionSettings): number {
+  return Math.round(randomBetween(...settings.fieldPauseMs));
+}
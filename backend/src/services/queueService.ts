@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AutomationSession, InteractionProfile, QueueItem, SubmitPolicy } from '../../../shared/types.js';
+import { automationService } from './automationService.js';
+
+// Sessions run at once; paused sessions waiting on the user keep their slot
+const QUEUE_CONCURRENCY = Math.max(1, Number(process.env.AUTOMATION_QUEUE_CONCURRENCY) || 2);
+
+// The item's status does not allow the requested change
+export class QueueStateError extends Error {}
+
+// Runs a batch of postings through the automation engine, a few at a time
+class QueueService {
+  private items: QueueItem[] = [];
+  private unsubscribers: Map<string, () => void> = new Map();
+
+  list(): QueueItem[] {
+    return this.items;
+  }
+
+  add(entries: { url: string; profileId: string }[], submitPolicy?: SubmitPolicy, interactionProfile?: InteractionProfile): QueueItem[] {
+    const added = entries.map(
+      (entry): QueueItem => ({
+        id: uuidv4(),
+        url: entry.url,
+        profileId: entry.profileId,
+        submitPolicy,
+        interactionProfile,
+        status: 'queued',
+        addedAt: new Date().toISOString(),
+      })
+    );
+    this.items.push(...added);
+    this.pump();
+    return added;
+  }
+
+  // Queue a failed or skipped item again, at the back of the queue
+  retry(id: string): QueueItem | null {
+    const item = this.items.find((i) => i.id === id);
+    if (!item) {
+      return null;
+    }
+    if (item.status !== 'failed' && item.status !== 'skipped') {
+      throw new QueueStateError('Only failed or skipped items can be retried');
+    }
+    Object.assign(item, { status: 'queued', error: undefined, startedAt: undefined, finishedAt: undefined });
+    this.items = [...this.items.filter((i) => i !== item), item];
+    this.pump();
+    return item;
+  }
+
+  // Leave an item out of the batch, stopping its session when it has started
+  async skip(id: string): Promise<QueueItem | null> {
+    const item = this.items.find((i) => i.id === id);
+    if (!item) {
+      return null;
+    }
+    if (item.status !== 'queued' && item.status !== 'running' && item.status !== 'paused') {
+      throw new QueueStateError('Only queued or active items can be skipped');
+    }
+    const sessionId = item.status === 'queued' ? undefined : item.sessionId;
+    this.finish(item, 'skipped');
+    if (sessionId) {
+      await automationService.stopSession(sessionId);
+    }
+    this.pump();
+    return item;
+  }
+
+  // Start queued items until every slot is taken
+  private pump() {
+    let active = this.items.filter((i) => i.status === 'running' || i.status === 'paused').length;
+    for (const item of this.items) {
+      if (active >= QUEUE_CONCURRENCY) {
+        break;
+      }
+      if (item.status === 'queued') {
+        active++;
+        this.start(item);
+      }
+    }
+  }
+
+  private start(item: QueueItem) {
+    item.status = 'running';
+    item.startedAt = new Date().toISOString();
+
+    automationService
+      .startSession({
+        profileId: item.profileId,
+        url: item.url,
+        mode: 'url',
+        submitPolicy: item.submitPolicy,
+        interactionProfile: item.interactionProfile,
+      })
+      .then((session) => {
+        // Skipped before the session came up
+        if (item.status !== 'running') {
+          automationService.stopSession(session.id).catch(() => {});
+          return;
+        }
+        item.sessionId = session.id;
+        const unsubscribe = automationService.subscribe(session.id, (event, data) => {
+          if (event === 'session') {
+            this.track(item, data as AutomationSession);
+          }
+        });
+        if (!unsubscribe) {
+          this.finish(item, 'failed', 'Session ended before it could be tracked');
+        } else if (item.status === 'running' || item.status === 'paused') {
+          this.unsubscribers.set(item.id, unsubscribe);
+        } else {
+          unsubscribe();
+        }
+        this.pump();
+      })
+      .catch((error: any) => {
+        if (item.status === 'running') {
+          this.finish(item, 'failed', error.message);
+        }
+        this.pump();
+      });
+  }
+
+  // Follow the item's session to the end, then hand its slot to the next item
+  private track(item: QueueItem, session: AutomationSession) {
+    if (item.sessionId !== session.id || (item.status !== 'running' && item.status !== 'paused')) {
+      return;
+    }
+    switch (session.status) {
+      case 'running':
+      case 'paused':
+        item.status = session.status;
+        return;
+      case 'completed':
+        this.finish(item, 'completed');
+        break;
+      case 'error':
+        this.finish(item, 'failed', session.errors[session.errors.length - 1]?.message);
+        break;
+      default:
+        // Stopped from the automation page
+        this.finish(item, 'skipped');
+        break;
+    }
+    this.pump();
+  }
+
+  private finish(item: QueueItem, status: QueueItem['status'], error?: string) {
+    item.status = status;
+    item.error = error;
+    item.finishedAt = new Date().toISOString();
+    this.unsubscribers.get(item.id)?.();
+    this.unsubscribers.delete(item.id);
+  }
+}
+
+export const queueService = new QueueService();
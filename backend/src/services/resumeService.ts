@@ -0,0 +1,107 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FieldType } from '../../../shared/types.js';
+import type { Profile, ResumeTemplate, User } from '../../../shared/types.js';
+import { googleDriveService } from './googleDriveService.js';
+import { StorageService } from './storageService.js';
+import { TemplateDataService } from './templateDataService.js';
+
+// Generated PDFs are only needed long enough to upload them
+const RESUME_DIR = path.join(os.tmpdir(), 'applicationator', 'resumes');
+
+export class ResumeService {
+  // Latest generated file per profile id, with the version of the data it was generated from
+  private static generated = new Map<string, { version: string; file: Promise<string> }>();
+  private static cleared: Promise<void> | undefined;
+
+  /**
+   * Fill a resume template with profile and user data and export it to PDF
+   */
+  static async buildResumePDF(template: ResumeTemplate, profile: Profile, user: User | null): Promise<Buffer> {
+    const templateData = TemplateDataService.buildTemplateData(profile, user);
+    const placeholderMap = TemplateDataService.getPlaceholderMap(templateData);
+
+    // Build condition map for conditional blocks
+    const conditionMap = new Map<string, boolean>();
+    conditionMap.set('hideLocation', profile.hideLocation || false);
+    conditionMap.set('showLocation', !(profile.hideLocation || false));
+
+    // Fill placeholders and export to PDF (pass profile for loop processing)
+    return googleDriveService.fillAndExportToPDF(template.googleDriveId, placeholderMap, conditionMap, profile);
+  }
+
+  /**
+   * Resolve the file to upload for a resume or cover letter field: the profile's uploaded
+   * document when there is one, otherwise (resumes only) a PDF generated from its template
+   */
+  static async resolveDocument(profile: Profile, user: User | null, fieldType: FieldType): Promise<string | undefined> {
+    const document =
+      fieldType === FieldType.RESUME ? profile.resumeFile :
+      fieldType === FieldType.COVER_LETTER ? profile.coverLetterFile :
+      undefined;
+
+    if (document) {
+      const filePath = StorageService.getDocumentPath(profile.id, document.storedName);
+      if (await fs.pathExists(filePath)) {
+        return filePath;
+      }
+    }
+    if (fieldType === FieldType.RESUME) {
+      return this.generateResumeFile(profile, user);
+    }
+    return undefined;
+  }
+
+  /**
+   * Generate the profile's resume from its resumeTemplateId and write it to a temporary file
+   * for upload. Returns undefined when the profile has no resume template. The file is reused
+   * until the profile, the user's details or the template change, then replaced.
+   */
+  static async generateResumeFile(profile: Profile, user: User | null): Promise<string | undefined> {
+    if (!profile.resumeTemplateId) {
+      return undefined;
+    }
+    const template = await StorageService.getTemplate(profile.resumeTemplateId);
+    if (!template) {
+      return undefined;
+    }
+
+    const version = [profile.updatedAt, user?.updatedAt, template.id, template.updatedAt].join(':');
+    const cached = this.generated.get(profile.id);
+    if (cached?.version === version) {
+      const filePath = await cached.file.catch(() => undefined);
+      // The temporary directory may have been cleared since
+      if (filePath && (await fs.pathExists(filePath))) {
+        return filePath;
+      }
+    }
+
+    const file = this.writeResumeFile(template, profile, user);
+    this.generated.set(profile.id, { version, file });
+    file.catch(() => {
+      if (this.generated.get(profile.id)?.file === file) {
+        this.generated.delete(profile.id);
+      }
+    });
+    // Each generation has its own directory, so the replaced one can go without touching the new file
+    cached?.file.then((old) => fs.remove(path.dirname(old)), () => {}).catch(() => {});
+    return file;
+  }
+
+  private static async writeResumeFile(template: ResumeTemplate, profile: Profile, user: User | null): Promise<string> {
+    // Files left over from an earlier run of the server are stale
+    this.cleared ??= fs.emptyDir(RESUME_DIR).catch(() => {});
+    await this.cleared;
+
+    const pdf = await this.buildResumePDF(template, profile, user);
+    const personalInfo = user?.personalInfo;
+    const baseName = personalInfo ? `${personalInfo.firstName} ${personalInfo.lastName} Resume` : `${profile.name} Resume`;
+    const dir = path.join(RESUME_DIR, profile.id, String(Date.now()));
+    const filePath = path.join(dir, `${baseName.replace(/[^\w.-]+/g, '_')}.pdf`);
+
+    await fs.ensureDir(dir);
+    await fs.writeFile(filePath, pdf);
+    return filePath;
+  }
+}
@@ -14,6 +14,9 @@ const PROFILES_DIR = path.join(DATA_DIR, 'profiles');
 const FIELD_MAPPINGS_DIR = path.join(DATA_DIR, 'field-mappings');
 const LEARNED_PATTERNS_DIR = path.join(DATA_DIR, 'learned-patterns');
 const TEMPLATES_DIR = path.join(DATA_DIR, 'templates');
+const DOCUMENTS_DIR = path.join(DATA_DIR, 'documents');
+const SESSIONS_DIR = path.join(DATA_DIR, 'sessions');
+const APPLICATIONS_DIR = path.join(DATA_DIR, 'applications');
 const USER_FILE = path.join(DATA_DIR, 'user.json');
 
 // Ensure directories exist
@@ -37,6 +40,9 @@ async function ensureDirectories() {
   await fs.ensureDir(FIELD_MAPPINGS_DIR);
   await fs.ensureDir(LEARNED_PATTERNS_DIR);
   await fs.ensureDir(TEMPLATES_DIR);
+  await fs.ensureDir(DOCUMENTS_DIR);
+  await fs.ensureDir(SESSIONS_DIR);
+  await fs.ensureDir(APPLICATIONS_DIR);
 }
 
 ensureDirectories();
@@ -80,6 +86,109 @@ export class StorageService {
     return false;
   }
 
+  // Profile documents (uploaded resume / cover letter files)
+  static getDocumentPath(profileId: string, storedName: string) {
+    return path.join(DOCUMENTS_DIR, profileId, storedName);
+  }
+
+  static async saveDocument(profileId: string, storedName: string, content: Buffer) {
+    await ensureDirectories();
+    const filePath = this.getDocumentPath(profileId, storedName);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+
+  static async deleteDocument(profileId: string, storedName: string) {
+    const filePath = this.getDocumentPath(profileId, storedName);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  }
+
+  // Automation session history
+  // Ids come from URL params; basename keeps them inside the sessions directory
+  static async getSession(id: string) {
+    const filePath = path.join(SESSIONS_DIR, `${path.basename(id)}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  }
+
+  static async getAllSessions() {
+    await ensureDirectories();
+    const files = await fs.readdir(SESSIONS_DIR);
+    const sessions = [];
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        const session = await fs.readJson(path.join(SESSIONS_DIR, file));
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  static async saveSession(session: any) {
+    await ensureDirectories();
+    const filePath = path.join(SESSIONS_DIR, `${path.basename(session.id)}.json`);
+    await fs.writeJson(filePath, session, { spaces: 2 });
+    return session;
+  }
+
+  // Snapshot files live in a folder named after the session, next to its JSON record
+  static getSnapshotPath(sessionId: string, snapshotId: string, extension: 'png' | 'html') {
+    return path.join(SESSIONS_DIR, path.basename(sessionId), `${path.basename(snapshotId)}.${extension}`);
+  }
+
+  static async saveSnapshot(sessionId: string, snapshotId: string, screenshot: Buffer, html: string) {
+    await ensureDirectories();
+    await fs.ensureDir(path.join(SESSIONS_DIR, path.basename(sessionId)));
+    await fs.writeFile(this.getSnapshotPath(sessionId, snapshotId, 'png'), screenshot);
+    await fs.writeFile(this.getSnapshotPath(sessionId, snapshotId, 'html'), html);
+  }
+
+  // Application tracker
+  // Ids come from URL params; basename keeps them inside the applications directory
+  static async getApplication(id: string) {
+    const filePath = path.join(APPLICATIONS_DIR, `${path.basename(id)}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  }
+
+  static async getAllApplications() {
+    await ensureDirectories();
+    const files = await fs.readdir(APPLICATIONS_DIR);
+    const applications = [];
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        const application = await fs.readJson(path.join(APPLICATIONS_DIR, file));
+        applications.push(application);
+      }
+    }
+    return applications;
+  }
+
+  static async saveApplication(application: any) {
+    await ensureDirectories();
+    const filePath = path.join(APPLICATIONS_DIR, `${path.basename(application.id)}.json`);
+    await fs.writeJson(filePath, application, { spaces: 2 });
+    return application;
+  }
+
+  static async deleteApplication(id: string) {
+    const filePath = path.join(APPLICATIONS_DIR, `${path.basename(id)}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  }
+
   // Field mappings
   static async getFieldMappings() {
     await ensureDirectories();
@@ -0,0 +1,223 @@
+// Runs the value tools from shared/inputValues.ts against fixture pages that mimic how React,
+// Vue, Angular, input masks, rich text editors and ARIA comboboxes take input, and checks that
+// each page's own state (not just the DOM) saw the value. Run with `npm test` in backend/.
+
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { createValueTools } from '../../shared/inputValues.js';
+import type { ValueTools } from '../../shared/inputValues.js';
+
+// Set up by openFixture(); every fixture page keeps the state its framework sees in fixture.state
+declare global {
+  interface Window {
+    __applicationatorValues?: ValueTools;
+    fixture: { state: Record<string, unknown>; mount?: () => void };
+  }
+}
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES = path.join(__dirname, 'fixtures', 'inputValues');
+
+// React is a frontend dependency; resolve it from there so either install layout works
+const frontendRequire = createRequire(path.join(__dirname, '../../frontend/package.json'));
+const REACT_SCRIPTS = [
+  ['react', 'umd/react.production.min.js'],
+  ['react-dom', 'umd/react-dom.production.min.js'],
+];
+
+// How long the page's framework gets to react to an edit
+const STATE_TIMEOUT_MS = 2000;
+
+let browser: Browser;
+
+// Libraries are [package, file] pairs; the UMD builds are not in the packages' exports
+async function openFixture(name: string, libraries: string[][] = []): Promise<Page> {
+  const page = await browser.newPage();
+  await page.goto(pathToFileURL(path.join(FIXTURES, name)).href);
+  for (const [pkg, file] of libraries) {
+    await page.addScriptTag({ path: path.join(path.dirname(frontendRequire.resolve(`${pkg}/package.json`)), file) });
+  }
+  // Installed the way the automation engine installs its page tools
+  await page.evaluate(`
+    var __name = (fn) => fn;
+    window.__applicationatorValues = (${createValueTools.toString()})();
+  `);
+  return page;
+}
+
+// Run one of the value tools on the element matching the selector
+async function callTool<K extends keyof ValueTools>(
+  page: Page,
+  tool: K,
+  selector: string,
+  ...args: Parameters<ValueTools[K]> extends [Element, ...infer Rest] ? Rest : never
+): Promise<Awaited<ReturnType<ValueTools[K]>>> {
+  return page.$eval(
+    selector,
+    (el, tool, args) => {
+      const tools = window.__applicationatorValues!;
+      return (tools[tool as keyof ValueTools] as (...params: unknown[]) => unknown)(el, ...args);
+    },
+    tool,
+    args as unknown[]
+  ) as Promise<Awaited<ReturnType<ValueTools[K]>>>;
+}
+
+// Wait until the fixture's state holds the expected value, then compare it for a readable failure
+async function expectState(page: Page, key: string, expected: unknown) {
+  await page
+    .waitForFunction(
+      (key, expected) => window.fixture.state[key] === expected,
+      { timeout: STATE_TIMEOUT_MS },
+      key,
+      expected
+    )
+    .catch(() => {});
+  const actual = await page.evaluate((key) => window.fixture.state[key], key);
+  assert.equal(actual, expected, `fixture state "${key}"`);
+}
+
+describe('value tools', () => {
+  before(async () => {
+    browser = await puppeteer.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  describe('React-controlled inputs', () => {
+    let page: Page;
+    before(async () => {
+      page = await openFixture('react.html', REACT_SCRIPTS);
+      await page.evaluate(() => window.fixture.mount!());
+      await page.waitForSelector('#name');
+    });
+    after(() => page.close());
+
+    it('ignores a plain value assignment, as React does', async () => {
+      await page.$eval('#name', (el) => {
+        (el as HTMLInputElement).value = 'Ignored';
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+      });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      assert.equal(await page.evaluate(() => window.fixture.state.name), '');
+    });
+
+    it('updates state through the native setter', async () => {
+      assert.equal(await callTool(page, 'setValue', '#name', 'Jane Doe'), 'native');
+      await expectState(page, 'name', 'Jane Doe');
+    });
+
+    it('updates a controlled textarea', async () => {
+      await callTool(page, 'setValue', '#bio', 'Ten years of backend work');
+      await expectState(page, 'bio', 'Ten years of backend work');
+    });
+
+    it('updates a controlled select', async () => {
+      await callTool(page, 'setValue', '#country', 'ca');
+      await expectState(page, 'country', 'ca');
+    });
+  });
+
+  describe('Vue and Angular style listeners', () => {
+    let page: Page;
+    before(async () => {
+      page = await openFixture('listeners.html');
+    });
+    after(() => page.close());
+
+    it('updates a v-model bound through input events', async () => {
+      await callTool(page, 'setValue', '#vue', 'Jane');
+      await expectState(page, 'vue', 'Jane');
+    });
+
+    it('updates an Angular control and marks it touched on blur', async () => {
+      await callTool(page, 'setValue', '#angular', 'Doe');
+      await page.$eval('#angular', (el) => (el as HTMLElement).blur());
+      await expectState(page, 'angular', 'Doe');
+      await expectState(page, 'angularTouched', true);
+    });
+
+    it('updates a select bound through change events', async () => {
+      await callTool(page, 'setValue', '#size', 'large');
+      await expectState(page, 'size', 'large');
+    });
+
+    it('ticks a checkbox bound through change events', async () => {
+      await callTool(page, 'setChecked', '#terms', true);
+      await expectState(page, 'terms', true);
+      // Already ticked, so nothing changes
+      await callTool(page, 'setChecked', '#terms', true);
+      await expectState(page, 'terms', true);
+    });
+  });
+
+  describe('masked input', () => {
+    let page: Page;
+    beforeEach(async () => {
+      page = await openFixture('masked.html');
+    });
+    afterEach(() => page.close());
+
+    it('falls back to key events when the mask rejects a direct write', async () => {
+      assert.equal(await callTool(page, 'setValue', '#phone', '5551234567'), 'keys');
+      await expectState(page, 'digits', '5551234567');
+      assert.equal(await page.$eval('#phone', (el) => (el as HTMLInputElement).value), '(555) 123-4567');
+    });
+
+    it('lets the mask drop the formatting characters it types itself', async () => {
+      await callTool(page, 'typeKeys', '#phone', '(212) 555-0100');
+      await expectState(page, 'digits', '2125550100');
+      assert.equal(await page.$eval('#phone', (el) => (el as HTMLInputElement).value), '(212) 555-0100');
+    });
+  });
+
+  describe('contenteditable editor', () => {
+    let page: Page;
+    before(async () => {
+      page = await openFixture('editable.html');
+    });
+    after(() => page.close());
+
+    it('replaces the draft through the editor input handling', async () => {
+      assert.equal(await callTool(page, 'setValue', '#editor', 'Dear hiring team'), 'editable');
+      await expectState(page, 'text', 'Dear hiring team');
+    });
+
+    it('replaces the text again without keeping the old one', async () => {
+      await callTool(page, 'setEditableText', '#editor', 'Hello again');
+      await expectState(page, 'text', 'Hello again');
+    });
+  });
+
+  describe('ARIA combobox', () => {
+    let page: Page;
+    before(async () => {
+      page = await openFixture('combobox.html');
+    });
+    after(() => page.close());
+
+    it('types the query and picks the matching suggestion', async () => {
+      assert.equal(await callTool(page, 'chooseSuggestion', '#city', 'Austin'), true);
+      await expectState(page, 'selected', 'Austin, TX');
+    });
+
+    it('lists suggestions and picks one by its exact text', async () => {
+      await callTool(page, 'typeKeys', '#city', 'Portland');
+      await page.waitForSelector('#city-options [role="option"]');
+      assert.deepEqual(await callTool(page, 'listSuggestions', '#city'), ['Portland, OR', 'Portland, ME']);
+      assert.equal(await callTool(page, 'pickSuggestion', '#city', 'Portland, ME'), true);
+      await expectState(page, 'selected', 'Portland, ME');
+    });
+
+    it('reports failure when no suggestion matches', async () => {
+      assert.equal(await callTool(page, 'chooseSuggestion', '#city', 'Chicago', 500), false);
+      await expectState(page, 'selected', '');
+    });
+  });
+});
@@ -0,0 +1,7 @@
+// Clicking the toolbar button opens the overlay on the current tab
+chrome.action.onClicked.addListener((tab) => {
+  chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    files: ['overlay.js'],
+  });
+});
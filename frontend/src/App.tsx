@@ -2,8 +2,11 @@ import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import ProfilesPage from './pages/ProfilesPage';
 import UserSettingsPage from './pages/UserSettingsPage';
 import AutomationPage from './pages/AutomationPage';
+import QueuePage from './pages/QueuePage';
 import TemplatesPage from './pages/TemplatesPage';
 import FieldMappingsPage from './pages/FieldMappingsPage';
+import HistoryPage from './pages/HistoryPage';
+import ApplicationsPage from './pages/ApplicationsPage';
 import LogViewer from './components/LogViewer';
 import ExportImport from './components/ExportImport';
 import LogStatus from './components/LogStatus';
@@ -43,6 +46,24 @@ function App() {
                   >
                     Automation
                   </Link>
+                  <Link
+                    to="/queue"
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    Queue
+                  </Link>
+                  <Link
+                    to="/history"
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    History
+                  </Link>
+                  <Link
+                    to="/applications"
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    Applications
+                  </Link>
                   <Link
                     to="/templates"
                     className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
@@ -75,6 +96,9 @@ function App() {
             <Route path="/" element={<ProfilesPage />} />
             <Route path="/user-settings" element={<UserSettingsPage />} />
             <Route path="/automation" element={<AutomationPage />} />
+            <Route path="/queue" element={<QueuePage />} />
+            <Route path="/history" element={<HistoryPage />} />
+            <Route path="/applications" element={<ApplicationsPage />} />
             <Route path="/templates" element={<TemplatesPage />} />
             <Route path="/field-mappings" element={<FieldMappingsPage />} />
             <Route path="/logs" element={<LogViewer />} />
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react';
+import { apiClient } from '../services/apiClient';
+
+interface BookmarkletPanelProps {
+  profileId?: string;
+}
+
+// Adds the overlay script, served by the backend, to whatever page the bookmark is clicked on
+function bookmarkletUrl(profileId?: string): string {
+  const src = JSON.stringify(apiClient.url('/overlay/overlay.js'));
+  const id = JSON.stringify(profileId || '');
+  return `javascript:(()=>{const s=document.createElement('script');s.src=${src}+'?'+Date.now();s.dataset.profileId=${id};document.body.appendChild(s)})()`;
+}
+
+export default function BookmarkletPanel({ profileId }: BookmarkletPanelProps) {
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  // React warns about javascript: URLs in href, so the link is set directly
+  useEffect(() => {
+    linkRef.current?.setAttribute('href', bookmarkletUrl(profileId));
+  }, [profileId]);
+
+  return (
+    <div className="rounded-md bg-gray-50 border border-gray-200 p-4 text-sm text-gray-700 space-y-3">
+      <p>
+        Manual mode fills the application in your own browser. Drag this link to your bookmarks bar,
+        open the application form, and click the bookmark:
+      </p>
+      <a
+        ref={linkRef}
+        onClick={(e) => e.preventDefault()}
+        className="inline-block bg-blue-600 text-white font-medium py-2 px-4 rounded-md cursor-move"
+      >
+        Applicationator
+      </a>
+      <p>
+        The bookmarklet needs the overlay built once with <code>npm run build:overlay</code> in{' '}
+        <code>frontend/</code>. Some sites block scripts from other origins; for those, load{' '}
+        <code>frontend/dist-overlay</code> as an unpacked extension and use its toolbar button instead.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { FieldPlanEntry, FieldType, FormField, PendingFieldAnswer } from '../../../shared/types';
+import { fieldKey, fieldLocation } from '../../../shared/fieldContext';
+
+interface FieldPlanTableProps {
+  plan: FieldPlanEntry[];
+  onApply: (overrides: PendingFieldAnswer[]) => Promise<void>;
+}
+
+export default function FieldPlanTable({ plan, onApply }: FieldPlanTableProps) {
+  // Only rows the user changed are sent as overrides
+  const [overrides, setOverrides] = useState<Record<string, PendingFieldAnswer>>({});
+  const [applying, setApplying] = useState(false);
+
+  // Keyed by fieldLocation(), since the same selector can match fields in different frames
+  const updateOverride = (field: FormField, changes: Partial<PendingFieldAnswer>) => {
+    const key = fieldLocation(field);
+    setOverrides((current) => ({
+      ...current,
+      [key]: { ...current[key], ...changes, selector: field.selector, framePath: field.framePath },
+    }));
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await onApply(Object.values(overrides));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <span className="font-medium">Field Plan:</span>
+      <div className="mt-2 max-h-96 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-3">Field</th>
+              <th className="py-2 pr-3">Type</th>
+              <th className="py-2 pr-3">Value</th>
+              <th className="py-2 pr-3">Source</th>
+              <th className="py-2 pr-3">Confidence</th>
+              <th className="py-2">Skip</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {plan.map((entry) => {
+              const override = overrides[fieldLocation(entry.field)];
+              return (
+                <tr key={fieldLocation(entry.field)} className={override?.skip ? 'opacity-50' : ''}>
+                  <td className="py-1 pr-3 text-gray-900">
+                    {fieldKey(entry.field)}
+                    {entry.field.required && <span className="text-red-600">*</span>}
+                  </td>
+                  <td className="py-1 pr-3">
+                    <select
+                      value={override?.fieldType || entry.fieldType || FieldType.UNKNOWN}
+                      onChange={(e) => updateOverride(entry.field, { fieldType: e.target.value as FieldType })}
+                      className="border border-gray-300 rounded-md px-2 py-1"
+                    >
+                      {Object.values(FieldType).map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-3">
+                    <input
+                      type="text"
+                      value={override?.value ?? (override?.fieldType ? '' : entry.value ?? '')}
+                      onChange={(e) => updateOverride(entry.field, { value: e.target.value })}
+                      placeholder={override?.fieldType ? 'From profile' : 'No value'}
+                      className="w-full border border-gray-300 rounded-md px-2 py-1"
+                    />
+                  </td>
+                  <td className="py-1 pr-3 text-gray-500">{entry.source.replace('_', ' ')}</td>
+                  <td className="py-1 pr-3 text-gray-500 tabular-nums">{Math.round(entry.confidence * 100)}%</td>
+                  <td className="py-1">
+                    <input
+                      type="checkbox"
+                      checked={!!override?.skip}
+                      onChange={(e) => updateOverride(entry.field, { skip: e.target.checked })}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleApply}
+          disabled={applying}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Apply Plan
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,43 @@
 import { useState } from 'react';
-import { FieldType } from '../../../shared/types';
+import { FieldOption, FieldType } from '../../../shared/types';
 import { fieldMatcher } from '../services/fieldMatcher';
 
 interface FieldPromptModalProps {
   fieldName: string;
-  onResolve: (fieldType: FieldType, value?: string) => void;
-  onSkip: () => void;
+  options?: FieldOption[]; // Choices the page offers, suggested for the custom value
+  onResolve: (fieldType: FieldType, value?: string) => Promise<void>;
+  onSkip: () => Promise<void>;
 }
 
-export default function FieldPromptModal({ fieldName, onResolve, onSkip }: FieldPromptModalProps) {
+export default function FieldPromptModal({ fieldName, options, onResolve, onSkip }: FieldPromptModalProps) {
   const [selectedType, setSelectedType] = useState<FieldType>(FieldType.UNKNOWN);
   const [customValue, setCustomValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSave = async () => {
-    if (selectedType !== FieldType.UNKNOWN) {
-      // Learn the pattern
-      await fieldMatcher.learnPattern(fieldName, selectedType);
-      onResolve(selectedType, customValue || undefined);
-    } else {
-      onSkip();
+  // Keep the modal open with the reason when the session rejects the answer
+  const submit = async (answer: () => Promise<void>) => {
+    setError(null);
+    try {
+      await answer();
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message || 'Failed to save the answer');
     }
   };
 
+  const handleSave = () =>
+    submit(async () => {
+      if (selectedType !== FieldType.UNKNOWN) {
+        // Learn the pattern
+        await fieldMatcher.learnPattern(fieldName, selectedType);
+        await onResolve(selectedType, customValue || undefined);
+      } else if (customValue) {
+        // No matching field type, but the user supplied the value to use
+        await onResolve(selectedType, customValue);
+      } else {
+        await onSkip();
+      }
+    });
+
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
       <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
@@ -29,6 +45,12 @@ export default function FieldPromptModal({ fieldName, onResolve, onSkip }: Field
         <p className="text-gray-600 mb-4">
           The field <strong>"{fieldName}"</strong> needs to be mapped to a field type.
         </p>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
         
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -56,15 +78,23 @@ export default function FieldPromptModal({ fieldName, onResolve, onSkip }: Field
               type="text"
               value={customValue}
               onChange={(e) => setCustomValue(e.target.value)}
+              list={options ? 'field-prompt-options' : undefined}
               className="w-full border border-gray-300 rounded-md px-3 py-2"
               placeholder="Enter value if not from profile"
             />
+            {options && (
+              <datalist id="field-prompt-options">
+                {options.filter((option) => option.value).map((option) => (
+                  <option key={option.value} value={option.text} />
+                ))}
+              </datalist>
+            )}
           </div>
         )}
 
         <div className="flex justify-end space-x-4">
           <button
-            onClick={onSkip}
+            onClick={() => submit(onSkip)}
             className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
           >
             Skip
@@ -0,0 +1,32 @@
+import { AutomationFieldEvent } from '../../../shared/types';
+
+interface FieldTimelineProps {
+  events: AutomationFieldEvent[];
+}
+
+export default function FieldTimeline({ events }: FieldTimelineProps) {
+  return (
+    <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-gray-100 text-sm">
+      {events.map((event, idx) => (
+        <li key={idx} className="py-1 flex items-center space-x-3">
+          <span className="text-gray-400 tabular-nums">
+            {new Date(event.timestamp).toLocaleTimeString()}
+          </span>
+          <span className={`px-2 rounded text-xs ${
+            event.type === 'filled' ? 'bg-green-100 text-green-800' :
+            event.type === 'matched' ? 'bg-blue-100 text-blue-800' :
+            event.type === 'failed' ? 'bg-red-100 text-red-800' :
+            event.type === 'invalid' ? 'bg-orange-100 text-orange-800' :
+            event.type === 'skipped' ? 'bg-yellow-100 text-yellow-800' :
+            'bg-gray-100 text-gray-800'
+          }`}>
+            {event.type}
+          </span>
+          <span className="text-gray-900">{event.fieldName}</span>
+          {event.fieldType && <span className="text-gray-500">→ {event.fieldType}</span>}
+          {event.message && <span className="text-gray-500">{event.message}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { Profile, WorkExperience, Certification } from '../../../shared/types';
+import { Profile, WorkExperience, Certification, ProfileDocument, ProfileDocumentKind } from '../../../shared/types';
+import { profileStore } from '../stores/profileStore';
 import { v4 as uuidv4 } from 'uuid';
 import WorkExperienceForm from './WorkExperienceForm';
 import CertificationForm from './CertificationForm';
@@ -29,6 +30,8 @@ export default function ProfileForm({ profile, onSave, onCancel }: ProfileFormPr
   const [editingCertification, setEditingCertification] = useState<Certification | null>(null);
   const [showWorkExpForm, setShowWorkExpForm] = useState(false);
   const [showCertificationForm, setShowCertificationForm] = useState(false);
+  const [documents, setDocuments] = useState<Partial<Record<ProfileDocumentKind, ProfileDocument>>>({});
+  const { uploadDocument, removeDocument } = profileStore();
 
   useEffect(() => {
     if (profile) {
@@ -63,9 +66,23 @@ export default function ProfileForm({ profile, onSave, onCancel }: ProfileFormPr
         }
       }
       setFormData(migratedProfile);
+      setDocuments({ resume: profile.resumeFile, coverLetter: profile.coverLetterFile });
     }
   }, [profile]);
 
+  // Documents are uploaded immediately rather than with the rest of the form
+  const handleUploadDocument = async (kind: ProfileDocumentKind, file?: File) => {
+    if (!profile || !file) return;
+    const updated = await uploadDocument(profile.id, kind, file);
+    setDocuments({ resume: updated.resumeFile, coverLetter: updated.coverLetterFile });
+  };
+
+  const handleRemoveDocument = async (kind: ProfileDocumentKind) => {
+    if (!profile) return;
+    const updated = await removeDocument(profile.id, kind);
+    setDocuments({ resume: updated.resumeFile, coverLetter: updated.coverLetterFile });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSave(formData);
@@ -354,6 +371,50 @@ export default function ProfileForm({ profile, onSave, onCancel }: ProfileFormPr
             )}
           </div>
 
+          {/* Documents Section */}
+          <div className="border-t pt-4">
+            <h4 className="text-md font-semibold mb-1">Documents</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Uploaded to file inputs during automation. Without a resume file, one is generated from the profile's resume template.
+            </p>
+            {profile ? (
+              <div className="space-y-3">
+                {([['resume', 'Resume'], ['coverLetter', 'Cover Letter']] as [ProfileDocumentKind, string][]).map(([kind, label]) => (
+                  <div key={kind} className="flex items-center justify-between border rounded-lg p-3 bg-gray-50">
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">{label}</span>
+                      <p className="text-sm text-gray-600">
+                        {documents[kind] ? documents[kind]!.fileName : 'No file uploaded'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 items-center">
+                      <label className="px-2 py-1 text-blue-600 hover:text-blue-800 text-sm cursor-pointer">
+                        {documents[kind] ? 'Replace' : 'Upload'}
+                        <input
+                          type="file"
+                          accept=".pdf,.doc,.docx"
+                          className="hidden"
+                          onChange={(e) => handleUploadDocument(kind, e.target.files?.[0])}
+                        />
+                      </label>
+                      {documents[kind] && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveDocument(kind)}
+                          className="px-2 py-1 text-red-600 hover:text-red-800 text-sm"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Save the profile first to attach documents.</p>
+            )}
+          </div>
+
           <div className="flex justify-end space-x-4 pt-4 border-t">
             <button
               type="button"
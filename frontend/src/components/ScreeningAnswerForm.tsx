@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Profile, ScreeningAnswer } from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ScreeningAnswerFormProps {
+  answer: ScreeningAnswer | null;
+  profiles: Profile[];
+  onSave: (answer: ScreeningAnswer) => void;
+  onCancel: () => void;
+}
+
+export default function ScreeningAnswerForm({ answer, profiles, onSave, onCancel }: ScreeningAnswerFormProps) {
+  const [formData, setFormData] = useState<ScreeningAnswer>({
+    id: uuidv4(),
+    questionPattern: '',
+    answer: '',
+    profileIds: [],
+  });
+
+  useEffect(() => {
+    if (answer) {
+      setFormData(answer);
+    }
+  }, [answer]);
+
+  const toggleProfile = (id: string) => {
+    const profileIds = formData.profileIds || [];
+    setFormData({
+      ...formData,
+      profileIds: profileIds.includes(id) ? profileIds.filter((p) => p !== id) : [...profileIds, id],
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.questionPattern.trim() || !formData.answer.trim()) {
+      alert('Please fill in required fields: Question and Answer');
+      return;
+    }
+    onSave(formData);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50">
+      <h4 className="font-semibold mb-3">{answer ? 'Edit Answer' : 'Add Answer'}</h4>
+      <div className="space-y-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Question *</label>
+          <input
+            type="text"
+            value={formData.questionPattern}
+            onChange={(e) => setFormData({ ...formData, questionPattern: e.target.value })}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            placeholder="e.g., authorized to work"
+            required
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Matches questions containing all of these words. Use /pattern/ for a regular expression.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Answer *</label>
+          <input
+            type="text"
+            value={formData.answer}
+            onChange={(e) => setFormData({ ...formData, answer: e.target.value })}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            placeholder="e.g., Yes"
+            required
+          />
+        </div>
+
+        {profiles.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Profiles</label>
+            <p className="text-xs text-gray-500 mb-1">Leave all unchecked to use this answer for every profile.</p>
+            <div className="flex flex-wrap gap-4">
+              {profiles.map((profile) => (
+                <label key={profile.id} className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.profileIds?.includes(profile.id) || false}
+                    onChange={() => toggleProfile(profile.id)}
+                    className="mr-2"
+                  />
+                  {profile.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { SessionSnapshot } from '../../../shared/types';
+import { apiClient } from '../services/apiClient';
+
+interface SnapshotFilmstripProps {
+  sessionId: string;
+  snapshots: SessionSnapshot[];
+}
+
+export default function SnapshotFilmstrip({ sessionId, snapshots }: SnapshotFilmstripProps) {
+  const snapshotUrl = (snapshot: SessionSnapshot, kind: 'screenshot' | 'html') =>
+    apiClient.url(`/api/automate/sessions/${sessionId}/snapshots/${snapshot.id}/${kind}`);
+
+  return (
+    <div className="mt-2 flex space-x-4 overflow-x-auto pb-2">
+      {snapshots.map((snapshot) => (
+        <div
+          key={snapshot.id}
+          className={`flex-shrink-0 w-48 border-2 rounded-md overflow-hidden ${
+            snapshot.reason === 'error' ? 'border-red-400' : 'border-gray-200'
+          }`}
+        >
+          <a href={snapshotUrl(snapshot, 'screenshot')} target="_blank" rel="noreferrer">
+            <img
+              src={snapshotUrl(snapshot, 'screenshot')}
+              alt={snapshot.step}
+              className="w-full h-32 object-cover object-top bg-gray-100"
+            />
+          </a>
+          <div className="p-2 text-xs">
+            <div className="font-medium text-gray-900 truncate" title={snapshot.step}>{snapshot.step}</div>
+            <div className="text-gray-400">{new Date(snapshot.timestamp).toLocaleTimeString()}</div>
+            {snapshot.message && (
+              <div className="text-red-600 truncate" title={snapshot.message}>{snapshot.message}</div>
+            )}
+            <a
+              href={snapshotUrl(snapshot, 'html')}
+              target="_blank"
+              rel="noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              View HTML
+            </a>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { ReviewField } from '../../../shared/types';
+import { fieldLocation } from '../../../shared/fieldContext';
+
+interface SubmitReviewPanelProps {
+  review: ReviewField[];
+  onAnswer: (approve: boolean) => Promise<void>;
+}
+
+export default function SubmitReviewPanel({ review, onAnswer }: SubmitReviewPanelProps) {
+  const [answering, setAnswering] = useState(false);
+
+  const handleAnswer = async (approve: boolean) => {
+    setAnswering(true);
+    try {
+      await onAnswer(approve);
+    } finally {
+      setAnswering(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <span className="font-medium">Review Before Submitting:</span>
+      <div className="mt-2 max-h-96 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-3">Field</th>
+              <th className="py-2 pr-3">Value on the page</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {review.map((field) => (
+              <tr key={fieldLocation(field)}>
+                <td className="py-1 pr-3 text-gray-900">{field.fieldName}</td>
+                <td className="py-1 pr-3 text-gray-700 whitespace-pre-wrap">
+                  {field.value || <span className="text-gray-400">Empty</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end space-x-4 mt-4">
+        <button
+          onClick={() => handleAnswer(false)}
+          disabled={answering}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Don't Submit
+        </button>
+        <button
+          onClick={() => handleAnswer(true)}
+          disabled={answering}
+          className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Submit Application
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+// Entry of the injectable overlay bundle (npm run build:overlay). The bookmarklet loads it
+// from the backend with a <script> tag; the unpacked extension injects it into the active tab.
+
+import { apiClient } from '../services/apiClient';
+import { frontendAutomationService } from '../services/automationService';
+import { FieldMapping, Profile, User } from '../../../shared/types';
+
+// The bookmarklet passes the profile chosen on the Automation page; read before any await
+const presetProfileId = (document.currentScript as HTMLScriptElement | null)?.dataset.profileId;
+
+async function openOverlay() {
+  // Clicking the bookmarklet again while the overlay is open does nothing
+  if (document.getElementById('applicationator-overlay')) {
+    return;
+  }
+
+  let profiles: Profile[];
+  try {
+    profiles = await apiClient.get<Profile[]>('/api/profiles');
+  } catch (error) {
+    console.error('Failed to load profiles:', error);
+    alert('Applicationator: could not reach the backend. Is it running?');
+    return;
+  }
+
+  const overlay = await frontendAutomationService.injectOverlay(profiles, presetProfileId);
+  let controller: AbortController | null = null;
+
+  if (profiles.length === 0) {
+    overlay.startButton.disabled = true;
+    overlay.setStatus('Create a profile in Applicationator first');
+  }
+
+  overlay.startButton.addEventListener('click', async () => {
+    const profile = profiles.find((p) => p.id === overlay.profileSelect.value);
+    if (!profile || controller) {
+      return;
+    }
+    controller = new AbortController();
+    overlay.startButton.disabled = true;
+    overlay.stopButton.textContent = 'Stop';
+    overlay.setStatus('Loading your details...');
+
+    try {
+      const [user, mappings] = await Promise.all([
+        apiClient.get<User>('/api/user'),
+        apiClient.get<FieldMapping[]>('/api/fields/mappings'),
+      ]);
+      const { filled, skipped } = await frontendAutomationService.fillForm(
+        profile,
+        user,
+        mappings,
+        (done, total) => overlay.setStatus(`Filling field ${done + 1} of ${total}...`),
+        controller.signal
+      );
+      overlay.setStatus(
+        controller.signal.aborted
+          ? `Stopped after filling ${filled} fields`
+          : `Filled ${filled} fields${skipped ? `, ${skipped} left for you` : ''}`
+      );
+    } catch (error) {
+      console.error('Failed to fill form:', error);
+      overlay.setStatus('Filling failed, see the browser console');
+    } finally {
+      controller = null;
+      overlay.startButton.disabled = false;
+      overlay.stopButton.textContent = 'Close';
+    }
+  });
+
+  // Stops a fill in progress, otherwise closes the overlay
+  overlay.stopButton.addEventListener('click', () => {
+    if (controller) {
+      controller.abort();
+    } else {
+      overlay.remove();
+    }
+  });
+}
+
+openOverlay();
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { applicationStore } from '../stores/applicationStore';
+import { profileStore } from '../stores/profileStore';
+import { APPLICATION_STAGES, ApplicationStage } from '../../../shared/types';
+
+const STAGE_LABELS: Record<ApplicationStage, string> = {
+  applied: 'Applied',
+  screening: 'Screening',
+  interview: 'Interview',
+  offer: 'Offer',
+  rejected: 'Rejected',
+};
+
+export default function ApplicationsPage() {
+  const { applications, loadApplications, createApplication, updateApplication, deleteApplication } = applicationStore();
+  const { profiles, loadProfiles } = profileStore();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [company, setCompany] = useState('');
+  const [role, setRole] = useState('');
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    loadApplications();
+    loadProfiles();
+  }, [loadApplications, loadProfiles]);
+
+  const profileName = (id?: string) => profiles.find((p) => p.id === id)?.name;
+
+  const handleDrop = async (stage: ApplicationStage) => {
+    const application = applications.find((a) => a.id === draggedId);
+    setDraggedId(null);
+    if (application && application.stage !== stage) {
+      await updateApplication(application.id, { stage });
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!company || !role) {
+      alert('Please enter a company and role');
+      return;
+    }
+    await createApplication({ company, role, url: url || undefined });
+    setCompany('');
+    setRole('');
+    setUrl('');
+    setShowForm(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Are you sure you want to delete this application?')) {
+      await deleteApplication(id);
+    }
+  };
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Applications</h2>
+          <p className="text-sm text-gray-500 mt-1">Track each application through the hiring pipeline</p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+        >
+          Add Application
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <input
+              type="text"
+              value={company}
+              onChange={(e) => setCompany(e.target.value)}
+              placeholder="Company"
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+            <input
+              type="text"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              placeholder="Role"
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/jobs/123"
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+          </div>
+          <div className="flex justify-end space-x-4 mt-4">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdd}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {APPLICATION_STAGES.map((stage) => {
+          const column = applications.filter((a) => a.stage === stage);
+          return (
+            <div
+              key={stage}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(stage)}
+              className="bg-gray-100 rounded-lg p-3 min-h-[12rem]"
+            >
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">
+                {STAGE_LABELS[stage]} <span className="text-gray-400">({column.length})</span>
+              </h3>
+              <div className="space-y-3">
+                {column.map((application) => (
+                  <div
+                    key={application.id}
+                    draggable
+                    onDragStart={() => setDraggedId(application.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    className={`bg-white shadow rounded-md p-3 cursor-move ${draggedId === application.id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="font-medium text-gray-900">{application.company}</div>
+                    <div className="text-sm text-gray-600">{application.role}</div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      {new Date(application.appliedAt).toLocaleDateString()}
+                      {profileName(application.profileId) && ` · ${profileName(application.profileId)}`}
+                    </div>
+                    {application.resumeVersion && (
+                      <div className="text-xs text-gray-400 truncate" title={application.resumeVersion}>
+                        Resume: {application.resumeVersion}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center mt-2">
+                      {application.url ? (
+                        <a
+                          href={application.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Posting
+                        </a>
+                      ) : <span />}
+                      <button
+                        onClick={() => handleDelete(application.id)}
+                        className="text-xs text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,39 +2,65 @@ import { useState, useEffect } from 'react';
 import { automationStore } from '../stores/automationStore';
 import { profileStore } from '../stores/profileStore';
 import FieldPromptModal from '../components/FieldPromptModal';
-import { FieldType } from '../../../shared/types';
+import FieldPlanTable from '../components/FieldPlanTable';
+import FieldTimeline from '../components/FieldTimeline';
+import SubmitReviewPanel from '../components/SubmitReviewPanel';
+import BookmarkletPanel from '../components/BookmarkletPanel';
+import { InteractionProfile, SubmitPolicy } from '../../../shared/types';
+import { fieldKey, fieldLocation } from '../../../shared/fieldContext';
 
 export default function AutomationPage() {
-  const { currentSession, startAutomation, stopAutomation, checkStatus } = automationStore();
+  const {
+    currentSession,
+    pendingFields,
+    events,
+    startAutomation,
+    stopAutomation,
+    subscribe,
+    loadPendingFields,
+    answerPendingField,
+    applyPlan,
+    approveSubmit,
+  } = automationStore();
   const { profiles } = profileStore();
   const [url, setUrl] = useState('');
   const [selectedProfileId, setSelectedProfileId] = useState('');
   const [mode, setMode] = useState<'url' | 'manual'>('url');
-  const [promptField, setPromptField] = useState<{ name: string; type: FieldType } | null>(null);
+  const [dryRun, setDryRun] = useState(false);
+  const [submitPolicy, setSubmitPolicy] = useState<SubmitPolicy>('never');
+  const [interactionProfile, setInteractionProfile] = useState<InteractionProfile | ''>('');
+  const promptField = currentSession?.status === 'paused' ? pendingFields[0] : undefined;
 
-  // Poll for status updates
+  // Stream live status and field events for the current session
   useEffect(() => {
-    if (currentSession?.status === 'running') {
-      const interval = setInterval(() => {
-        checkStatus();
-      }, 2000);
-      return () => clearInterval(interval);
+    if (currentSession?.id) {
+      return subscribe();
     }
-  }, [currentSession?.status, checkStatus]);
+  }, [currentSession?.id, subscribe]);
+
+  // Fetch the fields the session is waiting on when it pauses
+  useEffect(() => {
+    if (currentSession?.status === 'paused') {
+      loadPendingFields();
+    }
+  }, [currentSession?.status, loadPendingFields]);
 
   const handleStart = async () => {
     if (!selectedProfileId) {
       alert('Please select a profile');
       return;
     }
-    if (mode === 'url' && !url) {
+    if (!url) {
       alert('Please enter a URL');
       return;
     }
     await startAutomation({
       profileId: selectedProfileId,
-      url: mode === 'url' ? url : undefined,
+      url,
       mode,
+      dryRun,
+      submitPolicy,
+      interactionProfile: interactionProfile || undefined,
     });
   };
 
@@ -93,30 +119,77 @@ export default function AutomationPage() {
             </div>
           </div>
 
+          {mode === 'manual' && <BookmarkletPanel profileId={selectedProfileId || undefined} />}
+
           {mode === 'url' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Application URL
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Application URL
+                </label>
+                <input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/apply"
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  className="mr-2"
+                />
+                Preview the field plan before filling (dry run)
               </label>
-              <input
-                type="url"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                placeholder="https://example.com/apply"
-                className="w-full border border-gray-300 rounded-md px-3 py-2"
-              />
-            </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  When the form is filled
+                </label>
+                <select
+                  value={submitPolicy}
+                  onChange={(e) => setSubmitPolicy(e.target.value as SubmitPolicy)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  <option value="never">Leave it for me to submit</option>
+                  <option value="ask">Ask me to review, then submit</option>
+                  <option value="auto">Submit automatically</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Typing and pacing
+                </label>
+                <select
+                  value={interactionProfile}
+                  onChange={(e) => setInteractionProfile(e.target.value as InteractionProfile | '')}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  <option value="">Site default</option>
+                  <option value="fast">Fast</option>
+                  <option value="human">Human-like (typing jitter, pauses, mouse movement)</option>
+                  <option value="cautious">Cautious (slowest, for strict bot detection)</option>
+                </select>
+              </div>
+            </>
           )}
 
           <div className="flex space-x-4">
-            <button
-              onClick={handleStart}
-              disabled={currentSession?.status === 'running'}
-              className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              Start Automation
-            </button>
-            {currentSession?.status === 'running' && (
+            {mode === 'url' && (
+              <button
+                onClick={handleStart}
+                disabled={currentSession?.status === 'running'}
+                className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Start Automation
+              </button>
+            )}
+            {(currentSession?.status === 'running' || currentSession?.status === 'paused') && (
               <button
                 onClick={stopAutomation}
                 className="bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
@@ -136,6 +209,7 @@ export default function AutomationPage() {
               <span className="font-medium">Status:</span>
               <span className={`px-2 py-1 rounded text-sm ${
                 currentSession.status === 'running' ? 'bg-yellow-100 text-yellow-800' :
+                currentSession.status === 'paused' ? 'bg-blue-100 text-blue-800' :
                 currentSession.status === 'completed' ? 'bg-green-100 text-green-800' :
                 currentSession.status === 'error' ? 'bg-red-100 text-red-800' :
                 'bg-gray-100 text-gray-800'
@@ -160,6 +234,18 @@ export default function AutomationPage() {
                 <span className="font-medium">Current Step:</span> {currentSession.currentStep}
               </p>
             )}
+            {currentSession.dryRun && currentSession.status === 'paused' && currentSession.plan && !currentSession.review && (
+              <FieldPlanTable key={currentSession.id} plan={currentSession.plan} onApply={applyPlan} />
+            )}
+            {currentSession.status === 'paused' && currentSession.review && (
+              <SubmitReviewPanel review={currentSession.review} onAnswer={approveSubmit} />
+            )}
+            {events.length > 0 && (
+              <div className="mt-4">
+                <span className="font-medium">Field Timeline:</span>
+                <FieldTimeline events={events} />
+              </div>
+            )}
             {currentSession.errors.length > 0 && (
               <div className="mt-4">
                 <span className="font-medium text-red-600">Errors:</span>
@@ -176,12 +262,13 @@ export default function AutomationPage() {
 
       {promptField && (
         <FieldPromptModal
-          fieldName={promptField.name}
-          onResolve={(fieldType, value) => {
-            // Handle field resolution
-            setPromptField(null);
-          }}
-          onSkip={() => setPromptField(null)}
+          key={fieldLocation(promptField)}
+          fieldName={fieldKey(promptField)}
+          options={promptField.options}
+          onResolve={(fieldType, value) =>
+            answerPendingField({ selector: promptField.selector, framePath: promptField.framePath, fieldType, value })
+          }
+          onSkip={() => answerPendingField({ selector: promptField.selector, framePath: promptField.framePath, skip: true })}
         />
       )}
     </div>
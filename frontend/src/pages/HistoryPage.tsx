@@ -0,0 +1,138 @@
+import { useEffect } from 'react';
+import { historyStore } from '../stores/historyStore';
+import FieldTimeline from '../components/FieldTimeline';
+import SnapshotFilmstrip from '../components/SnapshotFilmstrip';
+import { AutomationSession } from '../../../shared/types';
+
+function statusClasses(status: AutomationSession['status']) {
+  return status === 'running' ? 'bg-yellow-100 text-yellow-800' :
+    status === 'paused' ? 'bg-blue-100 text-blue-800' :
+    status === 'completed' ? 'bg-green-100 text-green-800' :
+    status === 'error' ? 'bg-red-100 text-red-800' :
+    'bg-gray-100 text-gray-800';
+}
+
+export default function HistoryPage() {
+  const { sessions, selectedSession, loadSessions, selectSession } = historyStore();
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">History</h2>
+        <p className="text-sm text-gray-500 mt-1">Every automation session and where it applied</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Started
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                URL
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Fields Filled
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Errors
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <tr
+                key={session.id}
+                onClick={() => selectSession(session.id)}
+                className={`cursor-pointer hover:bg-gray-50 ${selectedSession?.id === session.id ? 'bg-blue-50' : ''}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {session.startedAt ? new Date(session.startedAt).toLocaleString() : '—'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900 max-w-md truncate">
+                  {session.url || 'Manual mode'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <span className={`px-2 py-1 rounded text-sm ${statusClasses(session.status)}`}>
+                    {session.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {session.fieldSummary
+                    ? `${session.fieldSummary.filled} / ${session.fieldSummary.detected}`
+                    : '—'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {session.errors.length}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {sessions.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            No automation sessions yet
+          </div>
+        )}
+      </div>
+
+      {selectedSession && (
+        <div className="bg-white shadow rounded-lg p-6 mt-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{selectedSession.url || 'Manual mode'}</h3>
+              <p className="text-sm text-gray-500">
+                Profile: {selectedSession.profileName || selectedSession.profileId}
+                {selectedSession.completedAt &&
+                  ` · Finished ${new Date(selectedSession.completedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <button
+              onClick={() => selectSession(null)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Close
+            </button>
+          </div>
+          {selectedSession.fieldSummary && (
+            <p className="text-sm text-gray-600 mb-4">
+              {selectedSession.fieldSummary.detected} detected · {selectedSession.fieldSummary.filled} filled ·{' '}
+              {selectedSession.fieldSummary.skipped} skipped · {selectedSession.fieldSummary.failed} failed
+              {selectedSession.fieldSummary.invalid > 0 && ` · ${selectedSession.fieldSummary.invalid} invalid`}
+            </p>
+          )}
+          {selectedSession.snapshots && selectedSession.snapshots.length > 0 && (
+            <div className="mb-4">
+              <span className="font-medium">Snapshots:</span>
+              <SnapshotFilmstrip sessionId={selectedSession.id} snapshots={selectedSession.snapshots} />
+            </div>
+          )}
+          {selectedSession.events.length > 0 && (
+            <div>
+              <span className="font-medium">Field Timeline:</span>
+              <FieldTimeline events={selectedSession.events} />
+            </div>
+          )}
+          {selectedSession.errors.length > 0 && (
+            <div className="mt-4">
+              <span className="font-medium text-red-600">Errors:</span>
+              <ul className="list-disc list-inside mt-2 space-y-1">
+                {selectedSession.errors.map((error, idx) => (
+                  <li key={idx} className="text-sm text-red-600">{error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
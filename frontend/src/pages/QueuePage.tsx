@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { queueStore } from '../stores/queueStore';
+import { profileStore } from '../stores/profileStore';
+import { automationStore } from '../stores/automationStore';
+import { InteractionProfile, QueueItem, SubmitPolicy } from '../../../shared/types';
+
+const POLL_INTERVAL_MS = 3000;
+
+function statusClasses(status: QueueItem['status']) {
+  return status === 'running' ? 'bg-yellow-100 text-yellow-800' :
+    status === 'paused' ? 'bg-blue-100 text-blue-800' :
+    status === 'completed' ? 'bg-green-100 text-green-800' :
+    status === 'failed' ? 'bg-red-100 text-red-800' :
+    'bg-gray-100 text-gray-800';
+}
+
+export default function QueuePage() {
+  const { items, loadQueue, addToQueue, retryItem, skipItem } = queueStore();
+  const { profiles, loadProfiles } = profileStore();
+  const { attachSession } = automationStore();
+  const navigate = useNavigate();
+  const [urls, setUrls] = useState('');
+  const [profileId, setProfileId] = useState('');
+  // Profiles picked for single postings, by URL; the rest use the default profile
+  const [rowProfiles, setRowProfiles] = useState<Record<string, string>>({});
+  const [submitPolicy, setSubmitPolicy] = useState<SubmitPolicy>('never');
+  const [interactionProfile, setInteractionProfile] = useState<InteractionProfile | ''>('');
+  const postingUrls = [...new Set(urls.split('\n').map((url) => url.trim()).filter(Boolean))];
+  const active = items.some((item) => ['queued', 'running', 'paused'].includes(item.status));
+
+  useEffect(() => {
+    loadQueue();
+    loadProfiles();
+  }, [loadQueue, loadProfiles]);
+
+  // Refresh item status while anything is still to run
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+    const timer = setInterval(loadQueue, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, loadQueue]);
+
+  const profileName = (id: string) => profiles.find((p) => p.id === id)?.name || id;
+
+  const handleAdd = async () => {
+    const entries = postingUrls.map((url) => ({ url, profileId: rowProfiles[url] || profileId }));
+    if (entries.length === 0 || entries.some((entry) => !entry.profileId)) {
+      alert('Please enter at least one URL and select a profile for each');
+      return;
+    }
+    await addToQueue(entries, submitPolicy, interactionProfile || undefined);
+    setUrls('');
+    setRowProfiles({});
+  };
+
+  // Sessions waiting on the user are answered from the automation page
+  const handleOpen = async (item: QueueItem) => {
+    await attachSession(item.sessionId!);
+    navigate('/automation');
+  };
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Queue</h2>
+        <p className="text-sm text-gray-500 mt-1">Apply to a batch of postings, a few at a time</p>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6 mb-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Posting URLs (one per line)
+            </label>
+            <textarea
+              value={urls}
+              onChange={(e) => setUrls(e.target.value)}
+              rows={5}
+              placeholder="https://example.com/jobs/123"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm"
+            />
+          </div>
+          {postingUrls.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Profile per posting
+              </label>
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {postingUrls.map((url) => (
+                  <div key={url} className="flex items-center gap-4 px-3 py-2">
+                    <span className="flex-1 truncate font-mono text-sm text-gray-700" title={url}>
+                      {url}
+                    </span>
+                    <select
+                      value={rowProfiles[url] || ''}
+                      onChange={(e) => setRowProfiles({ ...rowProfiles, [url]: e.target.value })}
+                      className="w-56 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="">Default profile</option>
+                      {profiles.map((profile) => (
+                        <option key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Default profile
+              </label>
+              <select
+                value={profileId}
+                onChange={(e) => setProfileId(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="">Select a profile</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                When a form is filled
+              </label>
+              <select
+                value={submitPolicy}
+                onChange={(e) => setSubmitPolicy(e.target.value as SubmitPolicy)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="never">Leave it for me to submit</option>
+                <option value="ask">Ask me to review, then submit</option>
+                <option value="auto">Submit automatically</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Typing and pacing
+              </label>
+              <select
+                value={interactionProfile}
+                onChange={(e) => setInteractionProfile(e.target.value as InteractionProfile | '')}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="">Site default</option>
+                <option value="fast">Fast</option>
+                <option value="human">Human-like (typing jitter, pauses, mouse movement)</option>
+                <option value="cautious">Cautious (slowest, for strict bot detection)</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={handleAdd}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+            >
+              Add to Queue
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                URL
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Profile
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {items.map((item) => (
+              <tr key={item.id}>
+                <td className="px-6 py-4 text-sm text-gray-900 max-w-md truncate" title={item.url}>
+                  {item.url}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {profileName(item.profileId)}
+                </td>
+                <td className="px-6 py-4 text-sm">
+                  <span className={`px-2 py-1 rounded text-sm ${statusClasses(item.status)}`}>
+                    {item.status}
+                  </span>
+                  {item.error && <div className="text-xs text-red-600 mt-1">{item.error}</div>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                  {item.sessionId && (item.status === 'running' || item.status === 'paused') && (
+                    <button onClick={() => handleOpen(item)} className="text-blue-600 hover:text-blue-900">
+                      Open
+                    </button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'skipped') && (
+                    <button onClick={() => retryItem(item.id)} className="text-blue-600 hover:text-blue-900">
+                      Retry
+                    </button>
+                  )}
+                  {(item.status === 'queued' || item.status === 'running' || item.status === 'paused') && (
+                    <button onClick={() => skipItem(item.id)} className="text-red-600 hover:text-red-900">
+                      Skip
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {items.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            The queue is empty
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,19 @@
 import { useState, useEffect } from 'react';
-import { User, PersonalInfo, Education } from '../../../shared/types';
+import { User, PersonalInfo, Education, ScreeningAnswer } from '../../../shared/types';
 import { userStore } from '../stores/userStore';
+import { profileStore } from '../stores/profileStore';
 import EducationForm from '../components/EducationForm';
+import ScreeningAnswerForm from '../components/ScreeningAnswerForm';
 import LoadingSpinner from '../components/LoadingSpinner';
 
 export default function UserSettingsPage() {
-  const { user, loadUser, updatePersonalInfo, updateEducation } = userStore();
+  const { user, loadUser, updatePersonalInfo, updateEducation, updateScreeningAnswers } = userStore();
+  const { profiles, loadProfiles } = profileStore();
   const [loading, setLoading] = useState(true);
   const [editingEducation, setEditingEducation] = useState<Education | null>(null);
   const [showEducationForm, setShowEducationForm] = useState(false);
+  const [editingAnswer, setEditingAnswer] = useState<ScreeningAnswer | null>(null);
+  const [showAnswerForm, setShowAnswerForm] = useState(false);
   const [personalInfo, setPersonalInfo] = useState<PersonalInfo>({
     firstName: '',
     lastName: '',
@@ -30,7 +35,8 @@ export default function UserSettingsPage() {
       setLoading(false);
     };
     fetchUser();
-  }, [loadUser]);
+    loadProfiles();
+  }, [loadUser, loadProfiles]);
 
   useEffect(() => {
     if (user) {
@@ -99,6 +105,28 @@ export default function UserSettingsPage() {
     await updateEducation(newEducations);
   };
 
+  const handleSaveAnswer = async (answer: ScreeningAnswer) => {
+    const existing = user?.screeningAnswers || [];
+    const updatedAnswers = editingAnswer
+      ? existing.map((a) => (a.id === answer.id ? answer : a))
+      : [...existing, answer];
+    await updateScreeningAnswers(updatedAnswers);
+    setShowAnswerForm(false);
+    setEditingAnswer(null);
+  };
+
+  const handleDeleteAnswer = async (id: string) => {
+    if (confirm('Are you sure you want to delete this answer?')) {
+      const existing = user?.screeningAnswers || [];
+      await updateScreeningAnswers(existing.filter((a) => a.id !== id));
+    }
+  };
+
+  const profileNames = (ids?: string[]) =>
+    ids?.length
+      ? ids.map((id) => profiles.find((p) => p.id === id)?.name).filter(Boolean).join(', ')
+      : 'All profiles';
+
   if (loading) {
     return <LoadingSpinner />;
   }
@@ -107,7 +135,7 @@ export default function UserSettingsPage() {
     <div className="px-4 py-6 sm:px-0">
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-gray-900">User Settings</h2>
-        <p className="text-sm text-gray-500 mt-1">Manage your personal information and education</p>
+        <p className="text-sm text-gray-500 mt-1">Manage your personal information, education and screening answers</p>
       </div>
 
       {/* Personal Information Section */}
@@ -315,6 +343,74 @@ export default function UserSettingsPage() {
           </div>
         )}
       </div>
+
+      {/* Screening Answers Section */}
+      <div className="bg-white shadow rounded-lg p-6 mt-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold">Screening Answers</h3>
+            <p className="text-sm text-gray-500">
+              Answers to recurring questions such as work authorization, sponsorship or desired salary
+            </p>
+          </div>
+          <button
+            onClick={() => {
+              setEditingAnswer(null);
+              setShowAnswerForm(true);
+            }}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            Add Answer
+          </button>
+        </div>
+        {showAnswerForm && (
+          <div className="mb-4">
+            <ScreeningAnswerForm
+              answer={editingAnswer}
+              profiles={profiles}
+              onSave={handleSaveAnswer}
+              onCancel={() => {
+                setShowAnswerForm(false);
+                setEditingAnswer(null);
+              }}
+            />
+          </div>
+        )}
+        {user?.screeningAnswers && user.screeningAnswers.length > 0 && (
+          <div className="space-y-3">
+            {user.screeningAnswers.map((answer) => (
+              <div key={answer.id} className="border rounded-lg p-3 bg-gray-50">
+                <div className="flex justify-between items-start">
+                  <div className="flex-1">
+                    <h5 className="font-medium">{answer.questionPattern}</h5>
+                    <p className="text-sm text-gray-600">{answer.answer}</p>
+                    <p className="text-xs text-gray-500">{profileNames(answer.profileIds)}</p>
+                  </div>
+                  <div className="flex gap-2 ml-4 items-center">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingAnswer(answer);
+                        setShowAnswerForm(true);
+                      }}
+                      className="px-2 py-1 text-blue-600 hover:text-blue-800 text-sm"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteAnswer(answer.id)}
+                      className="px-2 py-1 text-red-600 hover:text-red-800 text-sm"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -22,5 +22,14 @@ export const apiClient = {
     const response = await axios.delete<T>(`${API_BASE_URL}${url}`);
     return response.data;
   },
+
+  stream(url: string): EventSource {
+    return new EventSource(`${API_BASE_URL}${url}`);
+  },
+
+  // Absolute URL for links and images served by the backend
+  url(url: string): string {
+    return `${API_BASE_URL}${url}`;
+  },
 };
 
@@ -1,8 +1,24 @@
 // Frontend automation service for manual mode
-// This would inject scripts into the user's browser for manual trigger mode
+// Runs inside the page the user has open, injected by the overlay bundle (see src/overlay)
+
+import { selectorTools } from '../../../shared/selectors';
+import { fieldContextTools, fieldDescriptors } from '../../../shared/fieldContext';
+import { isAffirmative, matchOption } from '../../../shared/optionMatching';
+import { valueTools } from '../../../shared/inputValues';
+import { profileValue } from '../../../shared/profileValues';
+import { FieldMapping, FieldType, FormField, Profile, User } from '../../../shared/types';
+import { fieldMatcher } from './fieldMatcher';
+
+export interface OverlayControls {
+  startButton: HTMLButtonElement;
+  stopButton: HTMLButtonElement;
+  profileSelect: HTMLSelectElement;
+  setStatus: (text: string) => void;
+  remove: () => void;
+}
 
 export class FrontendAutomationService {
-  async injectOverlay() {
+  async injectOverlay(profiles: Profile[], selectedProfileId?: string): Promise<OverlayControls> {
     // Create overlay UI for manual mode
     const overlay = document.createElement('div');
     overlay.id = 'applicationator-overlay';
@@ -10,16 +26,26 @@ export class FrontendAutomationService {
       position: fixed;
       top: 20px;
       right: 20px;
+      width: 240px;
       background: white;
       border: 2px solid #3b82f6;
       border-radius: 8px;
       padding: 16px;
       z-index: 999999;
       box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+      font: 14px sans-serif;
+      color: #111827;
     `;
-    
+
     overlay.innerHTML = `
       <h3 style="margin: 0 0 12px 0; font-size: 16px; font-weight: bold;">Applicationator</h3>
+      <select id="am-profile" style="
+        width: 100%;
+        margin-bottom: 8px;
+        padding: 4px;
+        border: 1px solid #d1d5db;
+        border-radius: 4px;
+      "></select>
       <button id="am-start" style="
         background: #3b82f6;
         color: white;
@@ -29,7 +55,7 @@ export class FrontendAutomationService {
         cursor: pointer;
         width: 100%;
         margin-bottom: 8px;
-      ">Start Automation</button>
+      ">Fill Form</button>
       <button id="am-stop" style="
         background: #ef4444;
         color: white;
@@ -38,59 +64,173 @@ export class FrontendAutomationService {
         border-radius: 4px;
         cursor: pointer;
         width: 100%;
-      ">Stop</button>
+      ">Close</button>
+      <div id="am-status" style="margin-top: 8px; font-size: 12px; color: #4b5563;"></div>
     `;
-    
+
     document.body.appendChild(overlay);
-    
+
+    // Profile names are set as text, never as markup
+    const profileSelect = overlay.querySelector('#am-profile') as HTMLSelectElement;
+    profiles.forEach((profile) => {
+      profileSelect.add(new Option(profile.name, profile.id, false, profile.id === selectedProfileId));
+    });
+    const status = overlay.querySelector('#am-status') as HTMLElement;
+
     return {
-      startButton: document.getElementById('am-start'),
-      stopButton: document.getElementById('am-stop'),
+      startButton: overlay.querySelector('#am-start') as HTMLButtonElement,
+      stopButton: overlay.querySelector('#am-stop') as HTMLButtonElement,
+      profileSelect,
+      setStatus: (text: string) => {
+        status.textContent = text;
+      },
       remove: () => overlay.remove(),
     };
   }
 
-  async detectFormFields(): Promise<any[]> {
-    const fields: any[] = [];
-    const inputs = document.querySelectorAll('input, select, textarea');
-    
+  async detectFormFields(): Promise<FormField[]> {
+    const fields: FormField[] = [];
+    // Radio buttons sharing a name form one field with an option per button
+    const radioGroups = new Map<string, FormField>();
+    // Rich text editors are contenteditable elements rather than inputs, and design-system
+    // components keep their inputs in open shadow roots
+    const inputs = selectorTools.queryAllDeep('input, select, textarea, [contenteditable="true"], [contenteditable=""]');
+
     inputs.forEach((input) => {
       const element = input as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
-      const name = element.getAttribute('name') || 
-                  element.getAttribute('id') || 
-                  element.getAttribute('placeholder') || 
+      // Hidden inputs and buttons carry no user data, and the overlay's own controls are not the form's
+      if (element instanceof HTMLInputElement && ['hidden', 'submit', 'button', 'reset', 'image'].includes(element.type)) {
+        return;
+      }
+      if (element.closest('#applicationator-overlay')) {
+        return;
+      }
+
+      const name = element.getAttribute('name') ||
+                  element.getAttribute('id') ||
+                  element.getAttribute('placeholder') ||
                   'unknown';
-      
+
+      // Skip elements that cannot be addressed unambiguously
+      const selector = selectorTools.buildUniqueSelector(element);
+      if (!selector) return;
+
+      let type = (element.tagName === 'SELECT' ? 'select' :
+        element.tagName === 'TEXTAREA' || element.isContentEditable ? 'textarea' :
+        (element as HTMLInputElement).type || 'text') as FormField['type'];
+      // ARIA typeaheads, marked on the input or on its ARIA 1.1 wrapper, only take a suggestion
+      const autocomplete = element.getAttribute('aria-autocomplete');
+      if (type === 'text' && (element.closest('[role="combobox"]') || autocomplete === 'list' || autocomplete === 'both')) {
+        type = 'combobox';
+      }
+
+      if (type === 'radio') {
+        const option = { value: element.value, text: fieldContextTools.describeField(element).label || element.value, selector };
+        const group = radioGroups.get(name);
+        if (group) {
+          group.options!.push(option);
+          return;
+        }
+        // A radio's own label names the option; the question is the group's legend or caption
+        const field: FormField = {
+          selector,
+          name,
+          type,
+          ...fieldContextTools.describeField(element.closest('fieldset, [role="radiogroup"]') || element),
+          label: undefined,
+          options: [option],
+        };
+        radioGroups.set(name, field);
+        fields.push(field);
+        return;
+      }
+
       fields.push({
-        selector: element.id ? `#${element.id}` : `[name="${element.getAttribute('name')}"]`,
+        selector,
         name,
-        type: element.tagName === 'SELECT' ? 'select' : 
-             element.tagName === 'TEXTAREA' ? 'textarea' : 
-             (element as HTMLInputElement).type || 'text',
-        element,
+        type,
+        value: (element.isContentEditable ? element.textContent?.trim() : element.value) || undefined,
+        ...fieldContextTools.describeField(element),
+        options: element instanceof HTMLSelectElement
+          ? Array.from(element.options).map((o) => ({ value: o.value, text: o.text.trim() }))
+          : undefined,
       });
     });
-    
+
     return fields;
   }
 
-  async fillField(selector: string, value: string) {
-    const element = document.querySelector(selector) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+  async fillField(field: FormField, value: string) {
+    if (field.type === 'radio') {
+      const option = matchOption(field.options, value);
+      const radio = option?.selector && selectorTools.resolveSelector(option.selector);
+      if (!radio) return false;
+      valueTools.setChecked(radio, true);
+      return true;
+    }
+
+    const element = selectorTools.resolveSelector(field.selector);
     if (!element) return false;
 
     if (element.tagName === 'SELECT') {
-      (element as HTMLSelectElement).value = value;
-      element.dispatchEvent(new Event('change', { bubbles: true }));
+      const option = matchOption(field.options, value);
+      if (!option) return false;
+      valueTools.setValue(element, option.value);
+    } else if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+      valueTools.setChecked(element, isAffirmative(value));
+    } else if (field.type === 'combobox') {
+      // Typeaheads only accept a value picked from their suggestions
+      return valueTools.chooseSuggestion(element, value);
     } else {
-      (element as HTMLInputElement | HTMLTextAreaElement).value = value;
-      element.dispatchEvent(new Event('input', { bubbles: true }));
-      element.dispatchEvent(new Event('change', { bubbles: true }));
+      valueTools.setValue(element, value);
     }
-    
+
     return true;
   }
-}
 
-export const frontendAutomationService = new FrontendAutomationService();
+  // Fills every field with a known value; fields already holding a value are left alone
+  async fillForm(
+    profile: Profile,
+    user: User | null,
+    mappings: FieldMapping[],
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ filled: number; skipped: number }> {
+    const fields = (await this.detectFormFields()).filter((field) => field.type !== 'file' && !field.value);
+    let filled = 0;
 
+    for (const [i, field] of fields.entries()) {
+      if (signal?.aborted) break;
+      onProgress?.(i, fields.length);
+      const value = await this.resolveValue(field, profile, user, mappings);
+      if (value && (await this.fillField(field, value))) {
+        filled++;
+      }
+    }
+
+    return { filled, skipped: fields.length - filled };
+  }
 
+  // Same order of preference as the Puppeteer engine: answer bank, learned mappings, then the matcher
+  private async resolveValue(field: FormField, profile: Profile, user: User | null, mappings: FieldMapping[]): Promise<string | undefined> {
+    const answer = fieldMatcher.matchScreeningAnswer(field, user?.screeningAnswers, profile.id);
+    if (answer) {
+      return answer.answer;
+    }
+
+    const mapping = fieldDescriptors(field)
+      .map((d) => mappings.find((m) => m.fieldName.toLowerCase() === d.toLowerCase()))
+      .find(Boolean);
+    if (mapping?.value) {
+      return mapping.value;
+    }
+    if (mapping && mapping.fieldType !== FieldType.UNKNOWN) {
+      return profileValue(profile, user, mapping.fieldType);
+    }
+
+    const match = await fieldMatcher.matchField(field);
+    return match.type !== FieldType.UNKNOWN ? profileValue(profile, user, match.type) : undefined;
+  }
+}
+
+export const frontendAutomationService = new FrontendAutomationService();
@@ -1,6 +1,8 @@
 import * as tf from '@tensorflow/tfjs';
 import * as use from '@tensorflow-models/universal-sentence-encoder';
-import { FieldType, LearnedPattern } from '../../../shared/types';
+import { FieldType, FormField, LearnedPattern, ScreeningAnswer } from '../../../shared/types';
+import { fieldDescriptionText, fieldDescriptors } from '../../../shared/fieldContext';
+import { findScreeningAnswer } from '../../../shared/answerBank';
 import { apiClient } from './apiClient';
 
 class FieldMatcher {
@@ -30,16 +32,20 @@ class FieldMatcher {
     }
   }
 
-  async matchField(fieldName: string): Promise<{ type: FieldType; confidence: number }> {
+  // Accepts a bare field name or a detected field, whose label and surrounding text are used
+  async matchField(field: string | FormField): Promise<{ type: FieldType; confidence: number }> {
+    const descriptors = typeof field === 'string' ? [field] : fieldDescriptors(field);
+    const text = typeof field === 'string' ? field : fieldDescriptionText(field);
+
     if (!this.model) {
       await this.initialize();
     }
-    if (!this.model) {
-      return { type: FieldType.UNKNOWN, confidence: 0 };
+    if (!this.model || !text) {
+      return this.ruleBasedMatchAny(descriptors);
     }
 
-    // Get embedding for field name
-    const embedding = await this.model.embed([fieldName]);
+    // Get embedding for the field description
+    const embedding = await this.model.embed([text]);
     const fieldEmbedding = await embedding.array();
     const fieldVector = fieldEmbedding[0];
 
@@ -63,7 +69,7 @@ class FieldMatcher {
 
     // If no good match found, try rule-based matching
     if (bestMatch.confidence < 0.7) {
-      const ruleBased = this.ruleBasedMatch(fieldName);
+      const ruleBased = this.ruleBasedMatchAny(descriptors);
       if (ruleBased.confidence > bestMatch.confidence) {
         return ruleBased;
       }
@@ -72,6 +78,11 @@ class FieldMatcher {
     return bestMatch;
   }
 
+  // Saved answer for a screening question, matched against the field's label text
+  matchScreeningAnswer(field: FormField, answers: ScreeningAnswer[] = [], profileId?: string): ScreeningAnswer | undefined {
+    return findScreeningAnswer(field, answers, profileId);
+  }
+
   private cosineSimilarity(a: number[], b: number[]): number {
     let dotProduct = 0;
     let normA = 0;
@@ -84,6 +95,17 @@ class FieldMatcher {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
+  // Rule-based match on the most specific descriptor that yields a type
+  private ruleBasedMatchAny(descriptors: string[]): { type: FieldType; confidence: number } {
+    for (const descriptor of descriptors) {
+      const match = this.ruleBasedMatch(descriptor);
+      if (match.type !== FieldType.UNKNOWN) {
+        return match;
+      }
+    }
+    return { type: FieldType.UNKNOWN, confidence: 0 };
+  }
+
   private ruleBasedMatch(fieldName: string): { type: FieldType; confidence: number } {
     const lower = fieldName.toLowerCase();
     
@@ -111,6 +133,12 @@ class FieldMatcher {
     if (lower.includes('zip') || lower.includes('postal')) {
       return { type: FieldType.ADDRESS_ZIP, confidence: 0.8 };
     }
+    if (lower.includes('cover') && lower.includes('letter')) {
+      return { type: FieldType.COVER_LETTER, confidence: 0.8 };
+    }
+    if (lower.includes('resume') || lower.includes('résumé') || /\bcv\b/.test(lower)) {
+      return { type: FieldType.RESUME, confidence: 0.8 };
+    }
 
     return { type: FieldType.UNKNOWN, confidence: 0 };
   }
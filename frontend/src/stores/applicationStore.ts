@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { Application } from '../../../shared/types';
+import { apiClient } from '../services/apiClient';
+
+interface ApplicationStore {
+  applications: Application[];
+  loadApplications: () => Promise<void>;
+  createApplication: (application: Partial<Application>) => Promise<void>;
+  updateApplication: (id: string, data: Partial<Application>) => Promise<void>;
+  deleteApplication: (id: string) => Promise<void>;
+}
+
+export const applicationStore = create<ApplicationStore>((set) => ({
+  applications: [],
+  loadApplications: async () => {
+    try {
+      const applications = await apiClient.get<Application[]>('/api/applications');
+      set({ applications });
+    } catch (error) {
+      console.error('Failed to load applications:', error);
+    }
+  },
+  createApplication: async (application) => {
+    try {
+      const created = await apiClient.post<Application>('/api/applications', application);
+      set((state) => ({ applications: [created, ...state.applications] }));
+    } catch (error) {
+      console.error('Failed to create application:', error);
+      throw error;
+    }
+  },
+  updateApplication: async (id, data) => {
+    try {
+      const updated = await apiClient.put<Application>(`/api/applications/${id}`, data);
+      set((state) => ({
+        applications: state.applications.map((a) => (a.id === id ? updated : a)),
+      }));
+    } catch (error) {
+      console.error('Failed to update application:', error);
+      throw error;
+    }
+  },
+  deleteApplication: async (id) => {
+    try {
+      await apiClient.delete(`/api/applications/${id}`);
+      set((state) => ({
+        applications: state.applications.filter((a) => a.id !== id),
+      }));
+    } catch (error) {
+      console.error('Failed to delete application:', error);
+      throw error;
+    }
+  },
+}));
@@ -1,20 +1,37 @@
 import { create } from 'zustand';
-import { AutomationSession } from '../../../shared/types';
+import { AutomationSession, AutomationFieldEvent, FormField, InteractionProfile, PendingFieldAnswer, SubmitPolicy } from '../../../shared/types';
 import { apiClient } from '../services/apiClient';
 
 interface AutomationStore {
   currentSession: AutomationSession | null;
-  startAutomation: (config: { profileId: string; url?: string; mode: 'url' | 'manual' }) => Promise<void>;
+  pendingFields: FormField[];
+  events: AutomationFieldEvent[];
+  startAutomation: (config: {
+    profileId: string;
+    url?: string;
+    mode: 'url' | 'manual';
+    dryRun?: boolean;
+    submitPolicy?: SubmitPolicy;
+    interactionProfile?: InteractionProfile;
+  }) => Promise<void>;
   stopAutomation: () => Promise<void>;
+  attachSession: (id: string) => Promise<void>;
   checkStatus: () => Promise<void>;
+  subscribe: () => () => void;
+  loadPendingFields: () => Promise<void>;
+  answerPendingField: (answer: PendingFieldAnswer) => Promise<void>;
+  applyPlan: (overrides: PendingFieldAnswer[]) => Promise<void>;
+  approveSubmit: (approve: boolean) => Promise<void>;
 }
 
 export const automationStore = create<AutomationStore>((set) => ({
   currentSession: null,
+  pendingFields: [],
+  events: [],
   startAutomation: async (config) => {
     try {
       const session = await apiClient.post<AutomationSession>('/api/automate/start', config);
-      set({ currentSession: session });
+      set({ currentSession: session, events: [], pendingFields: [] });
     } catch (error) {
       console.error('Failed to start automation:', error);
       throw error;
@@ -35,6 +52,16 @@ export const automationStore = create<AutomationStore>((set) => ({
       throw error;
     }
   },
+  // Follow a session started elsewhere, such as by the batch queue
+  attachSession: async (id) => {
+    try {
+      const session = await apiClient.get<AutomationSession>(`/api/automate/status/${id}`);
+      set({ currentSession: session, events: [], pendingFields: [] });
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      throw error;
+    }
+  },
   checkStatus: async () => {
     try {
       const state = get();
@@ -48,6 +75,89 @@ export const automationStore = create<AutomationStore>((set) => ({
       console.error('Failed to check status:', error);
     }
   },
+  subscribe: () => {
+    const session = get().currentSession;
+    if (!session) {
+      return () => {};
+    }
+
+    const source = apiClient.stream(`/api/automate/events/${session.id}`);
+    source.onopen = () => {
+      // The server replays earlier field events on every (re)connect
+      set({ events: [] });
+    };
+    source.addEventListener('session', (e) => {
+      set({ currentSession: JSON.parse((e as MessageEvent).data) });
+    });
+    source.addEventListener('field', (e) => {
+      const event = JSON.parse((e as MessageEvent).data) as AutomationFieldEvent;
+      set((state) => ({ events: [...state.events, event] }));
+    });
+    source.onerror = () => {
+      // Fall back to a one-off status check; EventSource reconnects on its own
+      get().checkStatus();
+    };
+
+    return () => source.close();
+  },
+  loadPendingFields: async () => {
+    try {
+      const state = get();
+      if (state.currentSession) {
+        const pendingFields = await apiClient.get<FormField[]>(
+          `/api/automate/${state.currentSession.id}/pending-fields`
+        );
+        set({ pendingFields });
+      }
+    } catch (error) {
+      console.error('Failed to load pending fields:', error);
+    }
+  },
+  answerPendingField: async (answer) => {
+    try {
+      const state = get();
+      if (state.currentSession) {
+        const pendingFields = await apiClient.post<FormField[]>(
+          `/api/automate/${state.currentSession.id}/pending-fields`,
+          answer
+        );
+        set({ pendingFields });
+      }
+    } catch (error) {
+      console.error('Failed to answer pending field:', error);
+      throw error;
+    }
+  },
+  applyPlan: async (overrides) => {
+    try {
+      const state = get();
+      if (state.currentSession) {
+        const session = await apiClient.post<AutomationSession>(
+          `/api/automate/${state.currentSession.id}/plan/apply`,
+          { overrides }
+        );
+        set({ currentSession: session });
+      }
+    } catch (error) {
+      console.error('Failed to apply plan:', error);
+      throw error;
+    }
+  },
+  approveSubmit: async (approve) => {
+    try {
+      const state = get();
+      if (state.currentSession) {
+        const session = await apiClient.post<AutomationSession>(
+          `/api/automate/${state.currentSession.id}/submit`,
+          { approve }
+        );
+        set({ currentSession: session });
+      }
+    } catch (error) {
+      console.error('Failed to answer submit review:', error);
+      throw error;
+    }
+  },
 }));
 
 function get() {
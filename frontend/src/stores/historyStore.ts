@@ -0,0 +1,35 @@
+import { create } from 'zustand';
+import { AutomationSession, AutomationSessionRecord } from '../../../shared/types';
+import { apiClient } from '../services/apiClient';
+
+interface HistoryStore {
+  sessions: AutomationSession[];
+  selectedSession: AutomationSessionRecord | null;
+  loadSessions: () => Promise<void>;
+  selectSession: (id: string | null) => Promise<void>;
+}
+
+export const historyStore = create<HistoryStore>((set) => ({
+  sessions: [],
+  selectedSession: null,
+  loadSessions: async () => {
+    try {
+      const sessions = await apiClient.get<AutomationSession[]>('/api/automate/sessions');
+      set({ sessions });
+    } catch (error) {
+      console.error('Failed to load session history:', error);
+    }
+  },
+  selectSession: async (id) => {
+    if (!id) {
+      set({ selectedSession: null });
+      return;
+    }
+    try {
+      const selectedSession = await apiClient.get<AutomationSessionRecord>(`/api/automate/sessions/${id}`);
+      set({ selectedSession });
+    } catch (error) {
+      console.error('Failed to load session:', error);
+    }
+  },
+}));
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { Profile } from '../../../shared/types';
+import { Profile, ProfileDocumentKind } from '../../../shared/types';
 import { apiClient } from '../services/apiClient';
 
 interface ProfileStore {
@@ -8,6 +8,18 @@ interface ProfileStore {
   createProfile: (profile: Profile) => Promise<void>;
   updateProfile: (id: string, data: Partial<Profile>) => Promise<void>;
   deleteProfile: (id: string) => Promise<void>;
+  uploadDocument: (id: string, kind: ProfileDocumentKind, file: File) => Promise<Profile>;
+  removeDocument: (id: string, kind: ProfileDocumentKind) => Promise<Profile>;
+}
+
+// Read a file as base64 without the data URL prefix
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 }
 
 export const profileStore = create<ProfileStore>((set, get) => ({
@@ -51,6 +63,34 @@ export const profileStore = create<ProfileStore>((set, get) => ({
       throw error;
     }
   },
+  uploadDocument: async (id, kind, file) => {
+    try {
+      const content = await readAsBase64(file);
+      const updated = await apiClient.put<Profile>(`/api/profiles/${id}/documents/${kind}`, {
+        fileName: file.name,
+        content,
+      });
+      set((state) => ({
+        profiles: state.profiles.map((p) => (p.id === id ? updated : p)),
+      }));
+      return updated;
+    } catch (error) {
+      console.error('Failed to upload document:', error);
+      throw error;
+    }
+  },
+  removeDocument: async (id, kind) => {
+    try {
+      const updated = await apiClient.delete<Profile>(`/api/profiles/${id}/documents/${kind}`);
+      set((state) => ({
+        profiles: state.profiles.map((p) => (p.id === id ? updated : p)),
+      }));
+      return updated;
+    } catch (error) {
+      console.error('Failed to remove document:', error);
+      throw error;
+    }
+  },
 }));
 
 
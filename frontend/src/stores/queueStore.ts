@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { InteractionProfile, QueueItem, SubmitPolicy } from '../../../shared/types';
+import { apiClient } from '../services/apiClient';
+
+interface QueueStore {
+  items: QueueItem[];
+  loadQueue: () => Promise<void>;
+  addToQueue: (
+    items: { url: string; profileId: string }[],
+    submitPolicy?: SubmitPolicy,
+    interactionProfile?: InteractionProfile
+  ) => Promise<void>;
+  retryItem: (id: string) => Promise<void>;
+  skipItem: (id: string) => Promise<void>;
+}
+
+export const queueStore = create<QueueStore>((set) => ({
+  items: [],
+  loadQueue: async () => {
+    try {
+      const items = await apiClient.get<QueueItem[]>('/api/automate/queue');
+      set({ items });
+    } catch (error) {
+      console.error('Failed to load queue:', error);
+    }
+  },
+  addToQueue: async (items, submitPolicy, interactionProfile) => {
+    try {
+      const added = await apiClient.post<QueueItem[]>('/api/automate/queue', { items, submitPolicy, interactionProfile });
+      set((state) => ({ items: [...state.items, ...added] }));
+    } catch (error) {
+      console.error('Failed to add to queue:', error);
+      throw error;
+    }
+  },
+  retryItem: async (id) => {
+    try {
+      await apiClient.post<QueueItem>(`/api/automate/queue/${id}/retry`);
+      // Retried items move to the back of the queue
+      const items = await apiClient.get<QueueItem[]>('/api/automate/queue');
+      set({ items });
+    } catch (error) {
+      console.error('Failed to retry queue item:', error);
+      throw error;
+    }
+  },
+  skipItem: async (id) => {
+    try {
+      const updated = await apiClient.post<QueueItem>(`/api/automate/queue/${id}/skip`);
+      set((state) => ({ items: state.items.map((i) => (i.id === id ? updated : i)) }));
+    } catch (error) {
+      console.error('Failed to skip queue item:', error);
+      throw error;
+    }
+  },
+}));
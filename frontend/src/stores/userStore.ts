@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { User, PersonalInfo, Education } from '../../../shared/types';
+import { User, PersonalInfo, Education, ScreeningAnswer } from '../../../shared/types';
 import { apiClient } from '../services/apiClient';
 
 interface UserStore {
@@ -8,6 +8,7 @@ interface UserStore {
   updateUser: (data: Partial<User>) => Promise<void>;
   updatePersonalInfo: (personalInfo: PersonalInfo) => Promise<void>;
   updateEducation: (education: Education[]) => Promise<void>;
+  updateScreeningAnswers: (screeningAnswers: ScreeningAnswer[]) => Promise<void>;
 }
 
 export const userStore = create<UserStore>((set, get) => ({
@@ -59,6 +60,19 @@ export const userStore = create<UserStore>((set, get) => ({
       throw error;
     }
   },
+  updateScreeningAnswers: async (screeningAnswers) => {
+    try {
+      const currentUser = get().user;
+      const updated = await apiClient.put<User>('/api/user', {
+        ...currentUser,
+        screeningAnswers,
+      });
+      set({ user: updated });
+    } catch (error) {
+      console.error('Failed to update screening answers:', error);
+      throw error;
+    }
+  },
 }));
 
 
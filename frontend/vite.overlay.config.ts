@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite'
+
+// Injectable overlay for manual mode: one self-contained script, plus the unpacked extension
+// files from overlay-extension/, written to dist-overlay/ (served by the backend at /overlay)
+export default defineConfig({
+  publicDir: 'overlay-extension',
+  define: {
+    // Library builds leave process.env alone; the page the script lands on has no process
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist-overlay',
+    emptyOutDir: true,
+    sourcemap: false,
+    lib: {
+      entry: 'src/overlay/main.ts',
+      formats: ['iife'],
+      name: 'applicationatorOverlay',
+      fileName: () => 'overlay.js',
+    },
+    commonjsOptions: {
+      transformMixedEsModules: true,
+      include: [/long/, /node_modules/],
+    },
+  },
+})
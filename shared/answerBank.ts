@@ -0,0 +1,47 @@
+// Matching of form questions against the user's screening-question answer bank,
+// shared by the Puppeteer engine and the frontend field matcher
+
+import type { FormField, ScreeningAnswer } from './types.js';
+import { fieldDescriptors } from './fieldContext.js';
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// A /regex/ pattern is tested as written; otherwise every word of the pattern must
+// appear in the question, in any order
+export function questionMatches(pattern: string, question: string): boolean {
+  const regex = pattern.trim().match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2] || 'i').test(question);
+    } catch {
+      return false;
+    }
+  }
+
+  const words = normalize(pattern).split(' ').filter(Boolean);
+  const questionWords = new Set(normalize(question).split(' '));
+  return words.length > 0 && words.every((word) => questionWords.has(word));
+}
+
+// First answer whose pattern matches the field's label text, most specific descriptor first.
+// Radio buttons and checkboxes are labelled with the option, so their group's legend counts too.
+export function findScreeningAnswer(
+  field: FormField,
+  answers: ScreeningAnswer[] = [],
+  profileId?: string
+): ScreeningAnswer | undefined {
+  const applicable = answers.filter(
+    (answer) => !answer.profileIds?.length || (profileId !== undefined && answer.profileIds.includes(profileId))
+  );
+  const isToggle = field.type === 'radio' || field.type === 'checkbox';
+  const descriptors = [...fieldDescriptors(field), ...(isToggle && field.section ? [field.section] : [])];
+  for (const descriptor of descriptors) {
+    const match = applicable.find((answer) => questionMatches(answer.questionPattern, descriptor));
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,170 @@
+// Profile dates are free strings ("2020-03-15", "03/2020", "March 2020"). These helpers parse
+// them and produce what a date field expects: native date and month inputs, masked text
+// inputs ("MM/YYYY", "DD/MM/YYYY") and split month, day or year dropdowns.
+
+import type { FieldOption, FormField } from './types.js';
+
+export interface ParsedDate {
+  year: number;
+  month?: number; // 1-12
+  day?: number;
+}
+
+export type DatePart = 'year' | 'month' | 'day';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Date masks are built from these tokens, longest first so "MMMM" is not read as "MM" twice.
+// A mask has at least two of them, so a lone "M" or "D" placeholder is not taken for one.
+const FORMAT_TOKENS = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+const DATE_MASK = /^(YYYY|YY|MMMM|MMM|MM|M|DD|D)([\s./-]+(YYYY|YY|MMMM|MMM|MM|M|DD|D))+$/;
+
+function build(year: number, month?: number, day?: number): ParsedDate | undefined {
+  if (month !== undefined && (month < 1 || month > 12)) {
+    return undefined;
+  }
+  if (day !== undefined && (day < 1 || day > 31)) {
+    return undefined;
+  }
+  return { year, month, day };
+}
+
+export function parseDate(text?: string): ParsedDate | undefined {
+  const value = (text || '').trim().toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  // 2020-03-15, 2020-03, 2020/03 and ISO timestamps
+  if ((match = value.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.](\d{1,2}))?(?:t.*)?$/))) {
+    return build(+match[1], +match[2], match[3] ? +match[3] : undefined);
+  }
+  // 03/15/2020, the order the profile date picker writes
+  if ((match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/))) {
+    return build(+match[3], +match[1], +match[2]);
+  }
+  // 03/2020
+  if ((match = value.match(/^(\d{1,2})[-/.](\d{4})$/))) {
+    return build(+match[2], +match[1]);
+  }
+  if ((match = value.match(/^(\d{4})$/))) {
+    return build(+match[1]);
+  }
+
+  // March 2020, Mar 15, 2020, 15 March 2020
+  const year = value.match(/\b(\d{4})\b/);
+  // Whole names or abbreviations only, so "Mayor" is not May
+  const month = MONTHS.findIndex((name) => new RegExp(`\\b(${name}|${name.slice(0, 3)})\\b`).test(value));
+  if (year && month >= 0) {
+    const day = value.replace(year[0], '').match(/\b(\d{1,2})\b/);
+    return build(+year[1], month + 1, day ? +day[1] : undefined);
+  }
+  return undefined;
+}
+
+// Month names in English and in the page's language, long and short
+function monthNames(month: number, locale?: string): string[] {
+  const date = new Date(2000, month - 1, 15);
+  const names = [MONTHS[month - 1], MONTHS[month - 1].slice(0, 3)];
+  try {
+    for (const style of ['long', 'short'] as const) {
+      names.push(new Intl.DateTimeFormat(locale || 'en', { month: style }).format(date).toLowerCase().replace(/\.$/, ''));
+    }
+  } catch {
+    // Unknown language tag; the English names still apply
+  }
+  return names;
+}
+
+export function formatDate(date: ParsedDate, format: string): string {
+  const month = date.month || 1;
+  const day = date.day || 1;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const name = MONTHS[month - 1][0].toUpperCase() + MONTHS[month - 1].slice(1);
+
+  return format.replace(FORMAT_TOKENS, (token) => {
+    switch (token) {
+      case 'YYYY': return String(date.year);
+      case 'YY': return pad(date.year % 100);
+      case 'MMMM': return name;
+      case 'MMM': return name.slice(0, 3);
+      case 'MM': return pad(month);
+      case 'M': return String(month);
+      case 'DD': return pad(day);
+      default: return String(day);
+    }
+  });
+}
+
+// Format the field expects, from its input type or a mask such as placeholder="MM/YYYY"
+export function dateFormatOf(field: FormField): string | undefined {
+  if (field.type === 'date') {
+    return 'YYYY-MM-DD';
+  }
+  if (field.type === 'month') {
+    return 'YYYY-MM';
+  }
+  for (const candidate of [field.format, field.placeholder]) {
+    const mask = candidate?.trim().toUpperCase();
+    if (mask && DATE_MASK.test(mask)) {
+      return mask;
+    }
+  }
+  return undefined;
+}
+
+// The value to type into a date field, or undefined when the field or value is not a date
+export function formatDateForField(field: FormField, value: string): string | undefined {
+  const format = dateFormatOf(field);
+  const date = format && parseDate(value);
+  return date ? formatDate(date, format) : undefined;
+}
+
+function optionNumber(option: FieldOption): number | undefined {
+  const text = /^\d{1,4}$/.test(option.value.trim()) ? option.value : option.text;
+  return /^\d{1,4}$/.test(text.trim()) ? Number(text) : undefined;
+}
+
+// Which part of a date a dropdown holds, judged by its options
+export function datePartOf(options: FieldOption[] = [], locale?: string): DatePart | undefined {
+  const choices = options.filter((option) => option.value);
+  if (choices.length === 0) {
+    return undefined;
+  }
+
+  const numbers = choices.map(optionNumber);
+  if (numbers.every((n) => n !== undefined && n >= 1900 && n <= 2100)) {
+    return 'year';
+  }
+  const named = choices.filter((option) =>
+    MONTHS.some((_, i) => monthNames(i + 1, locale).includes(option.text.trim().toLowerCase().replace(/\.$/, '')))
+  );
+  if (named.length >= 12 || (choices.length === 12 && numbers.every((n) => n !== undefined && n <= 12))) {
+    return 'month';
+  }
+  if (choices.length >= 28 && choices.length <= 31 && numbers.every((n) => n !== undefined && n <= 31)) {
+    return 'day';
+  }
+  return undefined;
+}
+
+// Option of a month, day or year dropdown for a date value
+export function dateOption(field: FormField, value: string): FieldOption | undefined {
+  const part = datePartOf(field.options, field.locale);
+  const date = part && parseDate(value);
+  if (!date) {
+    return undefined;
+  }
+
+  const wanted = date[part];
+  if (wanted === undefined) {
+    return undefined;
+  }
+  const names = part === 'month' ? monthNames(wanted, field.locale) : [];
+  return field.options!.find(
+    (option) =>
+      option.value &&
+      (optionNumber(option) === wanted || names.includes(option.text.trim().toLowerCase().replace(/\.$/, '')))
+  );
+}
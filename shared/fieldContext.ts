@@ -0,0 +1,108 @@
+// Human-readable context for form fields, shared by the Puppeteer engine and the overlay.
+//
+// ATS forms often name their inputs "input_23" or a GUID, so matching relies on the
+// label, ARIA attributes and surrounding text instead. Like the selector tools, the DOM
+// helpers live inside createFieldContextTools() so they can be installed in a page.
+
+import type { FormField } from './types.js';
+
+export type FieldContext = Pick<FormField, 'label' | 'ariaLabel' | 'placeholder' | 'nearbyText' | 'section'>;
+
+export interface FieldContextTools {
+  describeField: (element: Element) => FieldContext;
+}
+
+export function createFieldContextTools(): FieldContextTools {
+  const MAX_TEXT_LENGTH = 200;
+
+  function clean(text: string | null | undefined): string | undefined {
+    const cleaned = (text || '').replace(/\s+/g, ' ').trim();
+    return cleaned ? cleaned.slice(0, MAX_TEXT_LENGTH) : undefined;
+  }
+
+  function textOfIds(element: Element, attribute: string): string | undefined {
+    const ids = element.getAttribute(attribute);
+    if (!ids) return undefined;
+    const root = element.getRootNode() as Document | ShadowRoot;
+    return clean(
+      ids
+        .split(/\s+/)
+        .map((id) => root.getElementById?.(id)?.textContent || '')
+        .join(' ')
+    );
+  }
+
+  function labelText(element: Element): string | undefined {
+    const labels = (element as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return clean(Array.from(labels).map((label) => label.textContent).join(' '));
+    }
+    return clean(element.closest('label')?.textContent);
+  }
+
+  // Text just before the field, for forms that lay out captions without <label>
+  function nearbyText(element: Element): string | undefined {
+    let current: Element | null = element;
+    for (let depth = 0; current && depth < 3; depth++) {
+      let sibling = current.previousElementSibling;
+      while (sibling) {
+        const text = clean(sibling.textContent);
+        if (text && !sibling.matches('input, select, textarea')) {
+          return text;
+        }
+        sibling = sibling.previousElementSibling;
+      }
+      current = current.parentElement;
+    }
+    return undefined;
+  }
+
+  function sectionText(element: Element): string | undefined {
+    const legend = element.closest('fieldset')?.querySelector('legend');
+    if (legend) {
+      return clean(legend.textContent);
+    }
+
+    const group = element.closest('[role="group"], [role="region"], section');
+    if (group) {
+      const heading = group.querySelector('h1, h2, h3, h4, h5, h6, legend');
+      return clean(group.getAttribute('aria-label')) || textOfIds(group, 'aria-labelledby') || clean(heading?.textContent);
+    }
+    return undefined;
+  }
+
+  function describeField(element: Element): FieldContext {
+    return {
+      label: labelText(element),
+      ariaLabel: clean(element.getAttribute('aria-label')) || textOfIds(element, 'aria-labelledby'),
+      placeholder: clean(element.getAttribute('placeholder')),
+      nearbyText: nearbyText(element),
+      section: sectionText(element),
+    };
+  }
+
+  return { describeField };
+}
+
+export const fieldContextTools = createFieldContextTools();
+
+// Strings that identify a field, most specific first
+export function fieldDescriptors(field: FormField): string[] {
+  const descriptors = [field.label, field.ariaLabel, field.name, field.placeholder, field.nearbyText];
+  return descriptors.filter((d): d is string => !!d && d !== 'unknown');
+}
+
+// Key used to store learned mappings, preferring readable labels over generated names
+export function fieldKey(field: FormField): string {
+  return fieldDescriptors(field)[0] || field.name;
+}
+
+// Identifies a field on the page; the same selector can match a field in several frames
+export function fieldLocation(field: Pick<FormField, 'selector' | 'framePath'>): string {
+  return [...(field.framePath || []), field.selector].join('\n');
+}
+
+// Single string describing the field and its section, for embedding similarity
+export function fieldDescriptionText(field: FormField): string {
+  return [...fieldDescriptors(field), field.section].filter(Boolean).join(' ');
+}
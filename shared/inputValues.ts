@@ -0,0 +1,171 @@
+// Writing values into inputs so that framework-controlled forms (React, Angular, Vue) register
+// them. Assigning element.value skips React's value tracker, so the edit is lost on the next
+// render; going through the prototype's setter and dispatching the events a user edit fires
+// works for all three. Like the selector tools, the helpers live inside createValueTools() so
+// they can be installed in a page.
+
+export type ValueStrategy = 'native' | 'keys' | 'editable';
+
+export interface ValueTools {
+  // Writes text into an input, textarea, select (option value) or contenteditable element,
+  // falling back to key events when the page rejects a direct write; returns the strategy used
+  setValue: (element: Element, value: string) => ValueStrategy;
+  // Sets the value through the element prototype's setter, then fires input and change
+  setNativeValue: (element: Element, value: string) => void;
+  // Types the value one character at a time with key events, for masks that only react to keys
+  typeKeys: (element: Element, value: string) => void;
+  // Replaces the text of a rich text editor or other contenteditable element
+  setEditableText: (element: Element, value: string) => void;
+  // Ticks or clears a checkbox or radio with a click, so change handlers run
+  setChecked: (element: Element, checked: boolean) => void;
+  // Texts of the suggestions a combobox or typeahead is showing
+  listSuggestions: (element: Element) => string[];
+  // Clicks the shown suggestion with this text; false when it is no longer shown
+  pickSuggestion: (element: Element, text: string) => boolean;
+  // Types a query into a typeahead and clicks the first suggestion containing it
+  chooseSuggestion: (element: Element, value: string, timeoutMs?: number) => Promise<boolean>;
+}
+
+export function createValueTools(): ValueTools {
+  const SUGGESTION_TIMEOUT_MS = 3000;
+  const SUGGESTION_POLL_MS = 100;
+
+  function normalize(text: string | null | undefined): string {
+    return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  function isVisible(element: Element): boolean {
+    const html = element as HTMLElement;
+    return html.offsetParent !== null || getComputedStyle(html).position === 'fixed';
+  }
+
+  // Prototypes are taken from the element's own window, so elements inside frames work too
+  function valueSetter(element: Element): ((value: string) => void) | undefined {
+    const view = (element.ownerDocument.defaultView || window) as typeof window;
+    const prototype =
+      element.tagName === 'SELECT'
+        ? view.HTMLSelectElement.prototype
+        : element.tagName === 'TEXTAREA'
+          ? view.HTMLTextAreaElement.prototype
+          : view.HTMLInputElement.prototype;
+    return Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+  }
+
+  function writeValue(element: Element, value: string) {
+    const setter = valueSetter(element);
+    if (setter) {
+      setter.call(element, value);
+    } else {
+      (element as HTMLInputElement).value = value;
+    }
+  }
+
+  function setNativeValue(element: Element, value: string) {
+    (element as HTMLElement).focus();
+    writeValue(element, value);
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+
+  function typeKeys(element: Element, value: string) {
+    const input = element as HTMLInputElement;
+    input.focus();
+    writeValue(input, '');
+    input.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'deleteContentBackward' }));
+
+    for (const key of value) {
+      const init = { key, bubbles: true, cancelable: true };
+      // A handler that cancels keydown has applied the key itself, as input masks do
+      if (input.dispatchEvent(new KeyboardEvent('keydown', init))) {
+        input.dispatchEvent(new KeyboardEvent('keypress', init));
+        writeValue(input, input.value + key);
+        input.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: key }));
+      }
+      input.dispatchEvent(new KeyboardEvent('keyup', init));
+    }
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+  }
+
+  function setEditableText(element: Element, value: string) {
+    const editable = element as HTMLElement;
+    editable.focus();
+    editable.ownerDocument.getSelection()?.selectAllChildren(editable);
+    // insertText goes through the editor's own input handling (Draft.js, ProseMirror, Quill)
+    if (!editable.ownerDocument.execCommand('insertText', false, value)) {
+      editable.textContent = value;
+      editable.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: value }));
+    }
+  }
+
+  function setValue(element: Element, value: string): ValueStrategy {
+    if ((element as HTMLElement).isContentEditable) {
+      setEditableText(element, value);
+      return 'editable';
+    }
+    setNativeValue(element, value);
+    // Some masked inputs clear anything not typed; give them the keystrokes instead
+    if (element.tagName !== 'SELECT' && value && !(element as HTMLInputElement).value) {
+      typeKeys(element, value);
+      return 'keys';
+    }
+    return 'native';
+  }
+
+  function setChecked(element: Element, checked: boolean) {
+    if ((element as HTMLInputElement).checked !== checked) {
+      (element as HTMLElement).click();
+    }
+  }
+
+  // Options of the listbox the field controls, or of any visible listbox when it names none
+  function suggestions(element: Element): Element[] {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const ids = (element.getAttribute('aria-controls') || element.getAttribute('aria-owns') || '').split(/\s+/);
+    const owned = ids.map((id) => (id ? root.getElementById?.(id) : null)).filter((list): list is HTMLElement => !!list);
+    const lists = owned.length > 0 ? owned : Array.from(element.ownerDocument.querySelectorAll('[role="listbox"]')).filter(isVisible);
+    return lists.flatMap((list) => Array.from(list.querySelectorAll('[role="option"]'))).filter(isVisible);
+  }
+
+  function listSuggestions(element: Element): string[] {
+    return suggestions(element).map((option) => (option.textContent || '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+  }
+
+  function clickSuggestion(option: Element) {
+    // Many widgets pick on mousedown rather than click
+    for (const type of ['mousedown', 'mouseup', 'click']) {
+      option.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true }));
+    }
+  }
+
+  function pickSuggestion(element: Element, text: string): boolean {
+    const option = suggestions(element).find((candidate) => normalize(candidate.textContent) === normalize(text));
+    if (option) {
+      clickSuggestion(option);
+    }
+    return !!option;
+  }
+
+  async function chooseSuggestion(element: Element, value: string, timeoutMs = SUGGESTION_TIMEOUT_MS): Promise<boolean> {
+    if ((element as HTMLElement).isContentEditable) {
+      setEditableText(element, value);
+    } else {
+      typeKeys(element, value);
+    }
+
+    const wanted = normalize(value);
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const option = suggestions(element).find((candidate) => normalize(candidate.textContent).includes(wanted));
+      if (option) {
+        clickSuggestion(option);
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, SUGGESTION_POLL_MS));
+    }
+    return false;
+  }
+
+  return { setValue, setNativeValue, typeKeys, setEditableText, setChecked, listSuggestions, pickSuggestion, chooseSuggestion };
+}
+
+export const valueTools = createValueTools();
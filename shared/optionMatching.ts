@@ -0,0 +1,161 @@
+// Fuzzy matching of profile values against the options of selects, radio groups and
+// checkbox groups, shared by the Puppeteer engine and the overlay. Profile data rarely
+// uses the form's exact wording: "GA" vs "Georgia", "USA" vs "United States", "true" vs
+// "Yes, I am authorized", "Bachelor of Science" vs "Bachelor's Degree".
+
+import type { FieldOption } from './types.js';
+
+const US_STATES: Record<string, string> = {
+  al: 'alabama', ak: 'alaska', az: 'arizona', ar: 'arkansas', ca: 'california', co: 'colorado',
+  ct: 'connecticut', de: 'delaware', dc: 'district of columbia', fl: 'florida', ga: 'georgia',
+  hi: 'hawaii', id: 'idaho', il: 'illinois', in: 'indiana', ia: 'iowa', ks: 'kansas',
+  ky: 'kentucky', la: 'louisiana', me: 'maine', md: 'maryland', ma: 'massachusetts',
+  mi: 'michigan', mn: 'minnesota', ms: 'mississippi', mo: 'missouri', mt: 'montana',
+  ne: 'nebraska', nv: 'nevada', nh: 'new hampshire', nj: 'new jersey', nm: 'new mexico',
+  ny: 'new york', nc: 'north carolina', nd: 'north dakota', oh: 'ohio', ok: 'oklahoma',
+  or: 'oregon', pa: 'pennsylvania', ri: 'rhode island', sc: 'south carolina', sd: 'south dakota',
+  tn: 'tennessee', tx: 'texas', ut: 'utah', vt: 'vermont', va: 'virginia', wa: 'washington',
+  wv: 'west virginia', wi: 'wisconsin', wy: 'wyoming', pr: 'puerto rico',
+};
+
+// Each group lists interchangeable spellings of one country. Two-letter codes that are also
+// US state codes (CA, DE, IN) are left out, so "CA" never picks Canada in a state dropdown.
+const COUNTRIES: string[][] = [
+  ['us', 'usa', 'united states', 'united states of america', 'america'],
+  ['gb', 'uk', 'united kingdom', 'great britain', 'england'],
+  ['can', 'canada'],
+  ['mx', 'mex', 'mexico'],
+  ['au', 'aus', 'australia'],
+  ['deu', 'germany', 'deutschland'],
+  ['fr', 'fra', 'france'],
+  ['ind', 'india'],
+  ['ie', 'irl', 'ireland'],
+  ['nl', 'nld', 'netherlands', 'the netherlands', 'holland'],
+  ['es', 'esp', 'spain'],
+  ['br', 'bra', 'brazil'],
+  ['cn', 'chn', 'china'],
+  ['jp', 'jpn', 'japan'],
+  ['nz', 'nzl', 'new zealand'],
+];
+
+const YES = ['yes', 'y', 'true', '1', 'on', 'checked', 'agree', 'i agree', 'accept'];
+const NO = ['no', 'n', 'false', '0', 'off', 'unchecked', 'decline', 'disagree'];
+
+// Ordinal education levels, lowest first; each entry lists words that identify the level.
+// Abbreviations that are also everyday words ("as", "ma") only count as the whole text,
+// optionally followed by the subject: "MA in History".
+const DEGREE_LEVELS: RegExp[] = [
+  /\b(high school|secondary|ged|diploma)\b/,
+  /\b(associate'?s?|aa|aas)\b|^as( in .+)?$/,
+  /\b(bachelor'?s?|undergraduate|ba|bs|bsc|beng)\b|^ab( in .+)?$/,
+  /\b(master'?s?|graduate|ms|msc|mba|meng)\b|^ma( in .+)?$/,
+  /\b(doctorate|doctoral|doctor of|phd|ph d|jd|edd)\b|^md( in .+)?$/,
+];
+
+// Lowercase, drop periods ("B.S." -> "bs") and collapse punctuation to spaces
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9']+/g, ' ')
+    .trim();
+}
+
+// Interchangeable spellings of a value: itself plus state, country and yes/no aliases
+function aliases(text: string): Set<string> {
+  const value = normalize(text);
+  const result = new Set([value]);
+
+  if (US_STATES[value]) {
+    result.add(US_STATES[value]);
+  }
+  const stateCode = Object.keys(US_STATES).find((code) => US_STATES[code] === value);
+  if (stateCode) {
+    result.add(stateCode);
+  }
+
+  for (const group of [...COUNTRIES, YES, NO]) {
+    if (group.includes(value)) {
+      group.forEach((alias) => result.add(alias));
+    }
+  }
+  return result;
+}
+
+export function degreeLevel(text: string): number | undefined {
+  const value = normalize(text);
+  for (let level = DEGREE_LEVELS.length - 1; level >= 0; level--) {
+    if (DEGREE_LEVELS[level].test(value)) {
+      return level;
+    }
+  }
+  return undefined;
+}
+
+export function isAffirmative(value: string): boolean {
+  const normalized = normalize(value);
+  return YES.includes(normalized) || normalized.startsWith('yes ');
+}
+
+// "No, I do not require sponsorship" answers a Yes/No question as much as "No" does
+function isNegative(value: string): boolean {
+  const normalized = normalize(value);
+  return NO.includes(normalized) || normalized.startsWith('no ');
+}
+
+// Score how well an option represents the value; 0 means no match
+function scoreOption(option: FieldOption, value: string): number {
+  const wanted = aliases(value);
+  const texts = [option.text, option.value].filter(Boolean).map(normalize);
+
+  if (texts.some((text) => text === normalize(value))) {
+    return 100;
+  }
+  if (texts.some((text) => wanted.has(text))) {
+    return 90;
+  }
+
+  // "Yes, I am authorized to work" for a "Yes" answer
+  const firstWords = texts.map((text) => text.split(' ')[0]);
+  if (firstWords.some((word) => (YES.includes(word) && isAffirmative(value)) || (NO.includes(word) && isNegative(value)))) {
+    return 80;
+  }
+
+  const wantedLevel = degreeLevel(value);
+  if (wantedLevel !== undefined) {
+    const level = degreeLevel(option.text || option.value);
+    if (level === wantedLevel) {
+      return 70;
+    }
+  }
+
+  // Partial text match, preferring the option closest in length to the value
+  const needle = normalize(value);
+  if (needle.length >= 3) {
+    const partial = texts.find((text) => text.length >= 3 && (text.includes(needle) || needle.includes(text)));
+    if (partial) {
+      return 50 - Math.min(Math.abs(partial.length - needle.length), 40);
+    }
+  }
+
+  return 0;
+}
+
+// Best option for the value, or undefined when nothing is a plausible match
+export function matchOption(options: FieldOption[] = [], value: string): FieldOption | undefined {
+  let best: FieldOption | undefined;
+  let bestScore = 0;
+  for (const option of options) {
+    // Placeholder entries such as "Select..." carry no value
+    if (!option.value) {
+      continue;
+    }
+    const score = scoreOption(option, value);
+    if (score > bestScore) {
+      best = option;
+      bestScore = score;
+    }
+  }
+  return best;
+}
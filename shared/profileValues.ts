@@ -0,0 +1,114 @@
+// Values of the user's data for each field type, shared by the Puppeteer engine and the
+// injectable overlay so both fill a field of a given type with the same text
+
+import { FieldType } from './types.js';
+import type { Profile, User } from './types.js';
+
+export const WORK_ENTRY_TYPES = [
+  FieldType.WORK_COMPANY,
+  FieldType.WORK_TITLE,
+  FieldType.WORK_START_DATE,
+  FieldType.WORK_END_DATE,
+  FieldType.WORK_CURRENT,
+  FieldType.WORK_DESCRIPTION,
+  FieldType.WORK_LOCATION,
+];
+
+export const EDUCATION_ENTRY_TYPES = [
+  FieldType.EDUCATION_SCHOOL,
+  FieldType.EDUCATION_DEGREE,
+  FieldType.EDUCATION_FIELD_OF_STUDY,
+  FieldType.EDUCATION_START_DATE,
+  FieldType.EDUCATION_END_DATE,
+  FieldType.EDUCATION_GPA,
+];
+
+// Personal info comes from the user, work history from the profile; entryIndex picks the
+// job or school when filling a repeated section
+export function profileValue(profile: Profile, user: User | null, fieldType: FieldType, entryIndex = 0): string | undefined {
+  // Work history and education entries, by position when filling a repeated section
+  if (fieldType === FieldType.WORK_EXPERIENCE || WORK_ENTRY_TYPES.includes(fieldType) || EDUCATION_ENTRY_TYPES.includes(fieldType)) {
+    return entryValue(profile, user, fieldType, entryIndex);
+  }
+
+  const personalInfo = user?.personalInfo;
+  if (!personalInfo) {
+    return undefined;
+  }
+
+  switch (fieldType) {
+    case FieldType.FIRST_NAME:
+      return personalInfo.firstName;
+    case FieldType.LAST_NAME:
+      return personalInfo.lastName;
+    case FieldType.FULL_NAME:
+      return `${personalInfo.firstName} ${personalInfo.lastName}`;
+    case FieldType.EMAIL:
+      return personalInfo.email;
+    case FieldType.PHONE:
+      return personalInfo.phone;
+    case FieldType.ADDRESS_STREET:
+      return personalInfo.address.street;
+    case FieldType.ADDRESS_CITY:
+      return personalInfo.address.city;
+    case FieldType.ADDRESS_STATE:
+      return personalInfo.address.state;
+    case FieldType.ADDRESS_ZIP:
+      return personalInfo.address.zipCode;
+    case FieldType.ADDRESS_COUNTRY:
+      return personalInfo.address.country;
+    case FieldType.LINKEDIN:
+      return personalInfo.linkedIn;
+    case FieldType.PORTFOLIO:
+      return personalInfo.portfolio;
+    case FieldType.EDUCATION:
+      if (user?.education && user.education.length > 0) {
+        return user.education.map((e) => `${e.degree} from ${e.institution}`).join('; ');
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function entryValue(profile: Profile, user: User | null, fieldType: FieldType, entryIndex: number): string | undefined {
+  const job = profile.workExperience?.[entryIndex];
+  const school = user?.education?.[entryIndex];
+
+  switch (fieldType) {
+    case FieldType.WORK_EXPERIENCE:
+      if (profile.workExperience && profile.workExperience.length > 0) {
+        return profile.workExperience.map((j) => `${j.position} at ${j.company}`).join('; ');
+      }
+      return undefined;
+    case FieldType.WORK_COMPANY:
+      return job?.company;
+    case FieldType.WORK_TITLE:
+      return job?.position;
+    case FieldType.WORK_START_DATE:
+      return job?.startDate;
+    case FieldType.WORK_END_DATE:
+      return job && !job.current ? job.endDate : undefined;
+    case FieldType.WORK_CURRENT:
+      // Checkbox fields are ticked for any truthy value
+      return job?.current ? 'true' : undefined;
+    case FieldType.WORK_DESCRIPTION:
+      return job?.description;
+    case FieldType.WORK_LOCATION:
+      return job?.location;
+    case FieldType.EDUCATION_SCHOOL:
+      return school?.institution;
+    case FieldType.EDUCATION_DEGREE:
+      return school?.degree;
+    case FieldType.EDUCATION_FIELD_OF_STUDY:
+      return school?.fieldOfStudy;
+    case FieldType.EDUCATION_START_DATE:
+      return school?.startDate;
+    case FieldType.EDUCATION_END_DATE:
+      return school?.endDate;
+    case FieldType.EDUCATION_GPA:
+      return school?.gpa;
+    default:
+      return undefined;
+  }
+}
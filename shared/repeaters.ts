@@ -0,0 +1,91 @@
+// Detection of repeatable form sections ("Add another job", one group of fields per
+// school, ...), shared by the Puppeteer engine and the overlay. Like the selector tools,
+// the helpers live inside createRepeaterTools() so they can be installed in a page.
+
+export interface RepeaterMatch {
+  container: Element; // Parent of the repeated items
+  item: Element; // The item holding the field
+  index: number; // Position of the item among its siblings
+  addButton?: Element; // Button that appends another item
+}
+
+export interface RepeaterTools {
+  repeaterOf: (element: Element) => RepeaterMatch | null;
+}
+
+export function createRepeaterTools(): RepeaterTools {
+  const FIELD_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea';
+  const ADD_BUTTON_TEXT = /^\s*\+?\s*add\b/i;
+  const MAX_DEPTH = 8;
+  const MAX_SINGLE_ITEM_FIELDS = 12;
+
+  // Class names often carry the item index, so digits are ignored
+  function signature(element: Element): string {
+    const classes = Array.from(element.classList).map((c) => c.replace(/\d+/g, '')).sort();
+    return [element.tagName, ...classes].join('.');
+  }
+
+  // Identify each field by name/label with indices stripped, so repeated items compare equal
+  function fieldShape(item: Element): string {
+    return Array.from(item.querySelectorAll(FIELD_SELECTOR))
+      .map((field) => {
+        const label = (field as HTMLInputElement).labels?.[0]?.textContent || '';
+        const key = field.getAttribute('name') || label || field.getAttribute('aria-label') || field.getAttribute('type') || '';
+        return `${field.tagName}:${key.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase()}`;
+      })
+      .join('|');
+  }
+
+  function findAddButton(container: Element, items: Element[]): Element | undefined {
+    for (const scope of [container, container.parentElement]) {
+      if (!scope) continue;
+      const button = Array.from(scope.querySelectorAll('button, a, [role="button"]')).find(
+        (candidate) => !items.some((item) => item.contains(candidate)) && ADD_BUTTON_TEXT.test(candidate.textContent || '')
+      );
+      if (button) {
+        return button;
+      }
+    }
+    return undefined;
+  }
+
+  function repeaterOf(element: Element): RepeaterMatch | null {
+    let item = element.parentElement;
+
+    for (let depth = 0; item && item.parentElement && depth < MAX_DEPTH; depth++, item = item.parentElement) {
+      if (item === document.body || item.tagName === 'FORM') {
+        break;
+      }
+      const container: Element = item.parentElement!;
+      const fieldCount = item.querySelectorAll(FIELD_SELECTOR).length;
+      if (fieldCount < 2) {
+        continue;
+      }
+
+      const shape = fieldShape(item);
+      const sig = signature(item);
+      const items = Array.from(container.children).filter(
+        (sibling) => signature(sibling) === sig && fieldShape(sibling) === shape
+      );
+
+      // Two or more structurally identical items
+      if (items.length >= 2) {
+        return { container, item, index: items.indexOf(item), addButton: findAddButton(container, items) };
+      }
+
+      // A single item so far, followed by an "Add" button
+      if (fieldCount <= MAX_SINGLE_ITEM_FIELDS) {
+        const addButton = findAddButton(container, [item]);
+        if (addButton) {
+          return { container, item, index: 0, addButton };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  return { repeaterOf };
+}
+
+export const repeaterTools = createRepeaterTools();
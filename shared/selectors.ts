@@ -0,0 +1,142 @@
+// Unique selector generation shared by the Puppeteer engine and the in-page overlay.
+//
+// Everything lives inside createSelectorTools() so the backend can serialize the whole
+// toolkit with Function.prototype.toString() and install it in the target page.
+//
+// Selectors are scoped to the element's own document, so fields inside an iframe get a
+// selector relative to that frame. Open shadow roots are crossed with Puppeteer's deep
+// child combinator (" >>>> "), one segment per shadow host.
+
+export interface SelectorTools {
+  buildUniqueSelector: (element: Element) => string | null;
+  resolveSelector: (selector: string, root?: Document | ShadowRoot) => Element | null;
+  // Elements matching the selector in the root and in every open shadow root below it, in document order
+  queryAllDeep: (selector: string, root?: Document | ShadowRoot) => Element[];
+}
+
+export function createSelectorTools(): SelectorTools {
+  const SHADOW_SEPARATOR = ' >>>> ';
+  const ATTRIBUTES = ['name', 'data-testid', 'aria-label'];
+
+  type SelectorRoot = Document | ShadowRoot;
+
+  function isShadowRoot(root: Node): root is ShadowRoot {
+    return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && !!(root as ShadowRoot).host;
+  }
+
+  function matchesUniquely(root: SelectorRoot, selector: string, element: Element): boolean {
+    try {
+      const matches = root.querySelectorAll(selector);
+      return matches.length === 1 && matches[0] === element;
+    } catch {
+      // Invalid selector (e.g. odd characters in a generated id)
+      return false;
+    }
+  }
+
+  function structuralPath(element: Element, root: SelectorRoot): string {
+    const parts: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      const id = current.getAttribute('id');
+      if (current !== element && id && matchesUniquely(root, `#${CSS.escape(id)}`, current)) {
+        parts.unshift(`#${CSS.escape(id)}`);
+        break;
+      }
+
+      const tag = current.tagName.toLowerCase();
+      let index = 1;
+      let sibling = current.previousElementSibling;
+      while (sibling) {
+        if (sibling.tagName === current.tagName) index++;
+        sibling = sibling.previousElementSibling;
+      }
+      parts.unshift(`${tag}:nth-of-type(${index})`);
+
+      if (current.parentNode === root) break;
+      current = current.parentElement;
+    }
+
+    return parts.join(' > ');
+  }
+
+  // Build a selector for the element that is unique within its own root
+  function segmentFor(element: Element, root: SelectorRoot): string | null {
+    const tag = element.tagName.toLowerCase();
+    const candidates: string[] = [];
+
+    const id = element.getAttribute('id');
+    if (id) {
+      candidates.push(`#${CSS.escape(id)}`);
+    }
+    for (const attribute of ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        candidates.push(`${tag}[${attribute}="${CSS.escape(value)}"]`);
+      }
+    }
+
+    // Radio buttons and checkboxes in a group share a name; the value tells them apart
+    const name = element.getAttribute('name');
+    const value = element.getAttribute('value');
+    if (name && value) {
+      candidates.push(`${tag}[name="${CSS.escape(name)}"][value="${CSS.escape(value)}"]`);
+    }
+
+    candidates.push(structuralPath(element, root));
+
+    return candidates.find((candidate) => matchesUniquely(root, candidate, element)) || null;
+  }
+
+  function buildUniqueSelector(element: Element): string | null {
+    const segments: string[] = [];
+    let current = element;
+
+    while (true) {
+      const root = current.getRootNode() as SelectorRoot;
+      const segment = segmentFor(current, root);
+      if (!segment) {
+        return null;
+      }
+      segments.unshift(segment);
+
+      if (!isShadowRoot(root)) break;
+      current = root.host;
+    }
+
+    return segments.join(SHADOW_SEPARATOR);
+  }
+
+  function resolveSelector(selector: string, root: SelectorRoot = document): Element | null {
+    let scope: SelectorRoot | null = root;
+    let element: Element | null = null;
+
+    for (const segment of selector.split(SHADOW_SEPARATOR)) {
+      if (!scope) {
+        return null;
+      }
+      element = scope.querySelector(segment);
+      scope = element?.shadowRoot || null;
+    }
+
+    return element;
+  }
+
+  function queryAllDeep(selector: string, root: SelectorRoot = document): Element[] {
+    const found: Element[] = [];
+    root.querySelectorAll('*').forEach((element) => {
+      if (element.matches(selector)) {
+        found.push(element);
+      }
+      if (element.shadowRoot) {
+        found.push(...queryAllDeep(selector, element.shadowRoot));
+      }
+    });
+    return found;
+  }
+
+  return { buildUniqueSelector, resolveSelector, queryAllDeep };
+}
+
+export const selectorTools = createSelectorTools();
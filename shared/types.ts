@@ -4,9 +4,18 @@ export interface User {
   id: string;
   personalInfo: PersonalInfo;
   education: Education[];
+  screeningAnswers?: ScreeningAnswer[];
   updatedAt: string;
 }
 
+// Saved answer to a recurring screening question ("Do you require sponsorship?")
+export interface ScreeningAnswer {
+  id: string;
+  questionPattern: string; // Words that must all appear in the question, or a /regular expression/
+  answer: string;
+  profileIds?: string[]; // Profiles the answer applies to; empty means all
+}
+
 export interface Profile {
   id: string;
   name: string;
@@ -20,11 +29,21 @@ export interface Profile {
   certifications: Certification[];
   hideLocation?: boolean;
   resumeTemplateId?: string;
+  resumeFile?: ProfileDocument; // Pre-uploaded resume, preferred over generating from the template
+  coverLetterFile?: ProfileDocument;
   fieldMappings?: FieldMapping[];
   createdAt: string;
   updatedAt: string;
 }
 
+export type ProfileDocumentKind = 'resume' | 'coverLetter';
+
+export interface ProfileDocument {
+  fileName: string;
+  storedName: string;
+  uploadedAt: string;
+}
+
 export interface SkillCategory {
   id: string;
   title: string;
@@ -90,6 +109,7 @@ export interface FieldMapping {
   fieldType: FieldType;
   profileId?: string; // Profile-specific mapping
   confidence?: number;
+  value?: string; // Custom answer remembered from a user prompt
   learnedAt: string;
 }
 
@@ -110,6 +130,20 @@ export enum FieldType {
   PORTFOLIO = 'portfolio',
   WORK_EXPERIENCE = 'workExperience',
   EDUCATION = 'education',
+  // Per-entry fields of a repeated work history or education section
+  WORK_COMPANY = 'workCompany',
+  WORK_TITLE = 'workTitle',
+  WORK_START_DATE = 'workStartDate',
+  WORK_END_DATE = 'workEndDate',
+  WORK_CURRENT = 'workCurrent',
+  WORK_DESCRIPTION = 'workDescription',
+  WORK_LOCATION = 'workLocation',
+  EDUCATION_SCHOOL = 'educationSchool',
+  EDUCATION_DEGREE = 'educationDegree',
+  EDUCATION_FIELD_OF_STUDY = 'educationFieldOfStudy',
+  EDUCATION_START_DATE = 'educationStartDate',
+  EDUCATION_END_DATE = 'educationEndDate',
+  EDUCATION_GPA = 'educationGpa',
   SKILLS = 'skills',
   CERTIFICATIONS = 'certifications',
   RESUME = 'resume',
@@ -135,10 +169,80 @@ export interface AutomationSession {
   currentStep?: string;
   progress: number;
   errors: AutomationError[];
+  pendingFields?: FormField[]; // Unmapped fields awaiting user input while paused
+  dryRun?: boolean;
+  plan?: FieldPlanEntry[]; // Resolved values awaiting approval in a dry run
+  submitPolicy?: SubmitPolicy;
+  interactionProfile?: InteractionProfile; // Chosen for the session, or by the site adapter
+  review?: ReviewField[]; // Filled values awaiting approval before the final submit
+  submitted?: boolean;
+  fieldSummary?: SessionFieldSummary;
+  snapshots?: SessionSnapshot[];
   startedAt?: string;
   completedAt?: string;
 }
 
+// What to do with the final submit button once the form is filled
+export type SubmitPolicy = 'never' | 'ask' | 'auto';
+
+export const SUBMIT_POLICIES: SubmitPolicy[] = ['never', 'ask', 'auto'];
+
+// How the automation paces typing, pauses between fields and moves the pointer; 'fast' types at a
+// fixed speed, the others add jitter, pauses, scrolling and mouse movement to look less like a bot
+export type InteractionProfile = 'fast' | 'human' | 'cautious';
+
+export const INTERACTION_PROFILES: InteractionProfile[] = ['fast', 'human', 'cautious'];
+
+export interface ReviewField {
+  fieldName: string;
+  selector: string;
+  framePath?: string[];
+  value?: string; // As read back from the page
+}
+
+// One posting in the batch apply queue
+export interface QueueItem {
+  id: string;
+  url: string;
+  profileId: string;
+  submitPolicy?: SubmitPolicy;
+  interactionProfile?: InteractionProfile;
+  status: QueueItemStatus;
+  sessionId?: string; // Latest automation session for the item
+  error?: string;
+  addedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// 'paused' items are waiting on the user (unmapped fields or submit approval) and keep their slot
+export type QueueItemStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'skipped';
+
+// Screenshot and HTML of the page, taken at each page transition and on every error
+export interface SessionSnapshot {
+  id: string;
+  reason: 'page' | 'error';
+  step: string;
+  url?: string;
+  message?: string;
+  timestamp: string;
+}
+
+// Number of distinct fields that reached each stage
+export interface SessionFieldSummary {
+  detected: number;
+  filled: number;
+  skipped: number;
+  failed: number;
+  invalid: number; // Filled, but the page reported a validation problem
+}
+
+// Persisted session with its field timeline, for the application history
+export interface AutomationSessionRecord extends AutomationSession {
+  profileName?: string;
+  events: AutomationFieldEvent[];
+}
+
 export interface AutomationError {
   type: 'field_not_found' | 'field_unmapped' | 'navigation_error' | 'validation_error' | 'other';
   message: string;
@@ -146,13 +250,83 @@ export interface AutomationError {
   timestamp: string;
 }
 
+export interface AutomationFieldEvent {
+  type: 'detected' | 'matched' | 'filled' | 'invalid' | 'skipped' | 'failed';
+  fieldName: string;
+  selector: string;
+  framePath?: string[]; // Copied from the field
+  fieldType?: FieldType;
+  message?: string;
+  timestamp: string;
+}
+
 export interface FormField {
   selector: string;
   name: string;
-  type: 'text' | 'email' | 'tel' | 'date' | 'select' | 'textarea' | 'file' | 'checkbox' | 'radio';
+  type: 'text' | 'email' | 'tel' | 'date' | 'month' | 'select' | 'textarea' | 'file' | 'checkbox' | 'radio' | 'combobox'; // combobox: typeahead picking from a listbox
   value?: string;
   required?: boolean;
-  options?: string[];
+  options?: FieldOption[]; // Choices of a select, radio group or checkbox group; for a combobox, the last suggestions shown
+  label?: string;
+  ariaLabel?: string;
+  placeholder?: string;
+  nearbyText?: string; // Caption text rendered before the field when there is no <label>
+  section?: string; // Enclosing fieldset legend or section heading
+  format?: string; // Input mask or date format declared by the page, e.g. data-mask="MM/YYYY"
+  locale?: string; // Page language, for month names in date dropdowns
+  repeater?: RepeaterPosition; // Set when the field belongs to an "Add another" section
+  framePath?: string[]; // Selectors of the iframes holding the field, outermost first; absent in the top document
+}
+
+export interface FieldOption {
+  value: string;
+  text: string; // Visible text, or the label of a radio or checkbox
+  selector?: string; // Input to click, for radio and checkbox groups
+}
+
+export interface RepeaterPosition {
+  group: string; // Selector of the element holding the repeated items
+  index: number;
+  addButton?: string; // Selector of the button that appends another item
+}
+
+export type FieldValueSource = 'answer_bank' | 'learned_value' | 'learned_mapping' | 'rule' | 'document' | 'repeater' | 'none';
+
+export interface FieldPlanEntry {
+  field: FormField;
+  fieldType?: FieldType;
+  value?: string;
+  source: FieldValueSource;
+  confidence: number; // 0-1
+}
+
+// Answer to an unmapped field prompt, also used as a per-field override when applying a plan
+export interface PendingFieldAnswer {
+  selector: string;
+  framePath?: string[]; // Copied from the field, which may sit in an iframe
+  fieldType?: FieldType;
+  value?: string;
+  skip?: boolean;
+}
+
+export type ApplicationStage = 'applied' | 'screening' | 'interview' | 'offer' | 'rejected';
+
+export const APPLICATION_STAGES: ApplicationStage[] = ['applied', 'screening', 'interview', 'offer', 'rejected'];
+
+// A tracked job application, created when an automation session submits one or added by hand
+export interface Application {
+  id: string;
+  company: string;
+  role: string;
+  url?: string;
+  profileId?: string;
+  resumeVersion?: string; // Uploaded resume file name, or the profile revision the resume was generated from
+  sessionId?: string;
+  appliedAt: string;
+  stage: ApplicationStage;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ResumeTemplate {
@@ -0,0 +1,86 @@
+// Step navigation for multi-page application forms, including single-page-app wizards that
+// swap the step in place without loading a new document. Like the selector tools, the
+// helpers live inside createWizardTools() so they can be installed in a page.
+
+export interface WizardTools {
+  // Identifies the step on screen; changes when the wizard moves to another step
+  pageSignature: () => string;
+  // Visible, enabled control labelled as a step forward ("Next", "Continue", ...)
+  findNextButton: () => Element | null;
+  // Validation messages currently shown, used to explain why a step did not advance
+  visibleErrors: () => string[];
+}
+
+export function createWizardTools(): WizardTools {
+  const FIELD_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea';
+  const BUTTON_SELECTOR = 'button, [role="button"], input[type="submit"], input[type="button"], a';
+  const NEXT_TEXT = /^(next|continue|proceed|save (and|&) continue|next step)\b/;
+  // Anything that could send the application is left to the submit policy
+  const SUBMIT_TEXT = /\b(submit|apply|send)\b/;
+  const STEP_TEXT = /\b(step|page) \d+ (of|\/) \d+\b/i;
+  const ERROR_SELECTOR = '[role="alert"], .error, .errors, .invalid-feedback, .field-error, .error-message';
+  const MAX_TEXT_LENGTH = 200;
+
+  function isVisible(element: Element): boolean {
+    const html = element as HTMLElement;
+    return html.offsetParent !== null || getComputedStyle(html).position === 'fixed';
+  }
+
+  function accessibleName(element: Element): string {
+    const text =
+      element.getAttribute('aria-label') || element.textContent || (element as HTMLInputElement).value || '';
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+
+  function stepIndicator(): string {
+    const current = document.querySelector('[aria-current="step"]');
+    if (current) {
+      return accessibleName(current);
+    }
+    const progress = document.querySelector('[role="progressbar"][aria-valuenow], progress');
+    if (progress) {
+      return progress.getAttribute('aria-valuenow') || (progress as HTMLProgressElement).value.toString();
+    }
+    return document.body.innerText.match(STEP_TEXT)?.[0].toLowerCase() || '';
+  }
+
+  function pageSignature(): string {
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, legend'))
+      .filter(isVisible)
+      .map((heading) => accessibleName(heading))
+      .join('|');
+    // Field identity, not values, so typing or showing validation errors keeps the signature
+    const fields = Array.from(document.querySelectorAll(FIELD_SELECTOR))
+      .filter(isVisible)
+      .map((field) => field.getAttribute('name') || field.id || field.getAttribute('type') || field.tagName)
+      .join('|');
+    return [location.pathname + location.hash, stepIndicator(), headings, fields].join('\n');
+  }
+
+  function findNextButton(): Element | null {
+    const buttons = Array.from(document.querySelectorAll(BUTTON_SELECTOR)).filter(
+      (button) =>
+        isVisible(button) &&
+        !(button as HTMLButtonElement).disabled &&
+        button.getAttribute('aria-disabled') !== 'true'
+    );
+    return (
+      buttons.find((button) => {
+        const name = accessibleName(button);
+        return NEXT_TEXT.test(name) && !SUBMIT_TEXT.test(name);
+      }) || null
+    );
+  }
+
+  function visibleErrors(): string[] {
+    const messages = Array.from(document.querySelectorAll(ERROR_SELECTOR))
+      .filter(isVisible)
+      .map((element) => (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH))
+      .filter(Boolean);
+    return [...new Set(messages)];
+  }
+
+  return { pageSignature, findNextButton, visibleErrors };
+}
+
+export const wizardTools = createWizardTools();